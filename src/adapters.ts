@@ -0,0 +1,54 @@
+import { jsonSchemaAdapter } from './json-schema';
+import type { SchemaAdapter, SchemaNode } from './schema';
+import { standardSchemaAdapter } from './standard-schema';
+import type { SchemaInput } from './types';
+import { zod3Adapter, zod4Adapter } from './zod';
+
+/**
+ * Built-in adapters, in the order they are tried
+ * Zod comes first since Zod schemas also implement Standard Schema, and reading
+ * Zod directly gives the shape too
+ */
+const BUILT_IN_ADAPTERS: SchemaAdapter[] = [
+  zod3Adapter,
+  zod4Adapter,
+  standardSchemaAdapter,
+  jsonSchemaAdapter,
+];
+
+const customAdapters: SchemaAdapter[] = [];
+
+/**
+ * Adds a schema adapter, tried before the built-in ones
+ * Registering an adapter with the name of an existing custom adapter replaces it
+ *
+ * @example
+ * ```ts
+ * registerSchemaAdapter({
+ *   name: 'my-validator',
+ *   matches: (schema) => schema instanceof MyValidator,
+ *   describe: (schema) => ({ kind: 'other', optional: false, safeParse: ... }),
+ * });
+ * ```
+ */
+export function registerSchemaAdapter(adapter: SchemaAdapter): void {
+  const existing = customAdapters.findIndex((custom) => custom.name === adapter.name);
+  if (existing !== -1) customAdapters.splice(existing, 1);
+  customAdapters.unshift(adapter);
+}
+
+/**
+ * Describes a schema with the first adapter that handles it
+ * @throws TypeError if no adapter recognizes the schema
+ */
+export function describeSchema(schema: SchemaInput): SchemaNode {
+  const adapter = [...customAdapters, ...BUILT_IN_ADAPTERS].find((candidate) =>
+    candidate.matches(schema)
+  );
+  if (!adapter) {
+    throw new TypeError(
+      'Unsupported schema: expected a Zod schema, a Standard Schema or a JSON Schema object'
+    );
+  }
+  return adapter.describe(schema);
+}
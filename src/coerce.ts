@@ -0,0 +1,216 @@
+import { ParseContext, snippet } from './core';
+import {
+  ANY_SCHEMA,
+  hasOwnKey,
+  isPlainObject,
+  joinPath,
+  SchemaNode,
+  setOwnProperty,
+} from './schema';
+import type { CoerceOptions, RepairKind } from './types';
+
+const ALL_CATEGORIES: Required<CoerceOptions> = {
+  numbers: true,
+  booleans: true,
+  arrays: true,
+  enums: true,
+  defaults: true,
+  stripUnknown: true,
+};
+
+const NUMERIC_STRING = /^\s*[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?\s*$/;
+
+const BOOLEAN_STRINGS: Record<string, boolean> = {
+  true: true,
+  false: false,
+  yes: true,
+  no: false,
+  y: true,
+  n: false,
+  on: true,
+  off: false,
+};
+
+/**
+ * Resolves the `coerce` option into the enabled categories
+ */
+export function resolveCoerceOptions(
+  coerce: boolean | CoerceOptions | undefined
+): Required<CoerceOptions> | null {
+  if (!coerce) return null;
+  if (coerce === true) return ALL_CATEGORIES;
+  return {
+    numbers: !!coerce.numbers,
+    booleans: !!coerce.booleans,
+    arrays: !!coerce.arrays,
+    enums: !!coerce.enums,
+    defaults: !!coerce.defaults,
+    stripUnknown: !!coerce.stripUnknown,
+  };
+}
+
+/**
+ * Walks a value alongside its schema and fixes what LLMs commonly get wrong
+ * inside nested objects. Returns a new value; the input is not mutated.
+ */
+export function coerceToSchema(
+  value: unknown,
+  schema: SchemaNode,
+  categories: Required<CoerceOptions>,
+  context: ParseContext,
+  path = '$'
+): unknown {
+  const record = (kind: RepairKind, after: unknown) =>
+    recordCoercion(context, kind, path, value, after);
+
+  if (value === null || value === undefined) {
+    return value;
+  }
+
+  switch (schema.kind) {
+    case 'object':
+      return isPlainObject(value) ? coerceObject(value, schema, categories, context, path) : value;
+
+    case 'array': {
+      let items: unknown[];
+      if (Array.isArray(value)) {
+        items = value;
+      } else {
+        if (!categories.arrays) return value;
+        items = [value];
+        record('coerce-array', items);
+      }
+      const itemSchema = schema.items ?? ANY_SCHEMA;
+      return items.map((item, i) =>
+        coerceToSchema(item, itemSchema, categories, context, joinPath(path, i))
+      );
+    }
+
+    case 'record':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          coerceToSchema(
+            item,
+            schema.items ?? ANY_SCHEMA,
+            categories,
+            context,
+            joinPath(path, key)
+          ),
+        ])
+      );
+
+    case 'number':
+      if (categories.numbers && typeof value === 'string' && NUMERIC_STRING.test(value)) {
+        return record('coerce-number', Number(value));
+      }
+      return value;
+
+    case 'boolean':
+      if (categories.booleans && typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        if (normalized in BOOLEAN_STRINGS) {
+          return record('coerce-boolean', BOOLEAN_STRINGS[normalized]);
+        }
+      }
+      return value;
+
+    case 'enum': {
+      const options = (schema.values ?? []).filter(
+        (option): option is string => typeof option === 'string'
+      );
+      if (!categories.enums || typeof value !== 'string' || options.includes(value)) {
+        return value;
+      }
+      const normalized = normalizeEnumValue(value);
+      const matches = options.filter((option) => normalizeEnumValue(option) === normalized);
+      return matches.length === 1 ? record('coerce-enum', matches[0]) : value;
+    }
+
+    case 'union': {
+      const options = schema.options ?? [];
+      if (options.some((option) => option.safeParse(value).success)) {
+        return value;
+      }
+      // Take the first option the coerced value satisfies, without recording dead ends
+      for (const option of options) {
+        const scratch: ParseContext = { ...context, trace: undefined, log: () => undefined };
+        const coerced = coerceToSchema(value, option, categories, scratch, path);
+        if (option.safeParse(coerced).success) {
+          return coerceToSchema(value, option, categories, context, path);
+        }
+      }
+      return value;
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Coerces each field of an object, filling defaults and dropping unknown keys
+ */
+function coerceObject(
+  value: Record<string, unknown>,
+  schema: SchemaNode,
+  categories: Required<CoerceOptions>,
+  context: ParseContext,
+  path: string
+): Record<string, unknown> {
+  const shape = schema.shape ?? {};
+  const result: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    if (hasOwnKey(shape, key)) {
+      const coerced = coerceToSchema(item, shape[key]!, categories, context, joinPath(path, key));
+      setOwnProperty(result, key, coerced);
+    } else if (schema.strict && categories.stripUnknown) {
+      recordCoercion(context, 'strip-key', joinPath(path, key), item, undefined);
+    } else {
+      setOwnProperty(result, key, item);
+    }
+  }
+
+  if (categories.defaults) {
+    for (const [key, fieldSchema] of Object.entries(shape)) {
+      const { defaultValue } = fieldSchema;
+      if (result[key] === undefined && defaultValue) {
+        setOwnProperty(result, key, defaultValue());
+        recordCoercion(context, 'fill-default', joinPath(path, key), undefined, result[key]);
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Logs and traces one coercion, returning the coerced value
+ */
+function recordCoercion(
+  context: ParseContext,
+  kind: RepairKind,
+  path: string,
+  before: unknown,
+  after: unknown
+): unknown {
+  const beforeText = snippet(JSON.stringify(before) ?? 'undefined');
+  const afterText = snippet(JSON.stringify(after) ?? 'undefined');
+  context.log('debug', 'coerce.applied', `Coerced ${path} (${kind})`, {
+    kind,
+    path,
+    before: beforeText,
+    after: afterText,
+  });
+  context.trace?.repairs.push({ kind, path, before: beforeText, after: afterText });
+  return after;
+}
+
+/**
+ * Normalizes an enum candidate for case- and whitespace-insensitive comparison
+ */
+function normalizeEnumValue(value: string): string {
+  return value.trim().replace(/\s+/g, ' ').toLowerCase();
+}
@@ -0,0 +1,1186 @@
+import { jsonrepair } from 'jsonrepair';
+import { LogFn, createLog } from './logger';
+import { decodeStringifiedJson, DecodedString, decodeStringLayer, looksLikeJson } from './decode';
+import { dialectScanSyntax, DialectSyntaxError, parseDialect } from './dialects';
+import { maskCodeFences } from './fences';
+import { repairUnescapedQuotes } from './quotes';
+import { JsonSyntaxError, NoJsonFoundError, RepairFailedError } from './errors';
+import { LiteralEdit, normalizeLiterals } from './literals';
+import { splitMergedRecords } from './records';
+import { CLOSERS, scanContainer, ScanSyntax } from './scanner';
+import { findSyntaxError } from './syntax';
+import {
+  CandidateParser,
+  RepairPipeline,
+  RepairStrategy,
+  resolvePipeline,
+  StrategyContext,
+  StrategyRepair,
+} from './pipeline';
+import { detectTruncation, dropAtPath, TruncationScan } from './truncation';
+import { resolveReasoningOptions, ResolvedReasoningOptions, stripReasoning } from './reasoning';
+import { describeSchema } from './adapters';
+import { ANY_SCHEMA, formatPath, hasOwnKey, isPlainObject, SchemaNode } from './schema';
+import type {
+  CandidateStrategy,
+  Dialect,
+  JsonSpan,
+  ParseOptions,
+  ParseStrategy,
+  RepairAttempt,
+  RepairKind,
+  RepairRecord,
+  SpecialValues,
+  Truncation,
+} from './types';
+
+/**
+ * Per-call state shared by every pipeline step
+ */
+export interface ParseContext {
+  rootKind?: RootKind;
+  schema?: SchemaNode;
+  candidateStrategy: CandidateStrategy;
+  reasoning?: ResolvedReasoningOptions | null;
+  dropIncomplete?: boolean;
+  decodeDepth?: number;
+  decodeFields?: boolean;
+  specialValues?: SpecialValues;
+  dialect: Dialect;
+  syntax?: ScanSyntax;
+  strategies?: readonly (string | RepairStrategy)[];
+  trace?: ParseTrace;
+  log: LogFn;
+}
+
+/**
+ * Builds the pipeline context for one call
+ */
+export function createContext(options?: ParseOptions, trace?: ParseTrace): ParseContext {
+  const schema = options?.schema ? describeSchema(options.schema) : undefined;
+  const dialect = options?.dialect ?? 'json';
+  return {
+    rootKind: expectedRootKind(schema),
+    schema,
+    candidateStrategy: options?.candidateStrategy ?? (schema ? 'best-schema-match' : 'first'),
+    reasoning: resolveReasoningOptions(options?.stripReasoning),
+    dropIncomplete: options?.dropIncomplete ?? false,
+    decodeDepth: options?.maxDecodeDepth ?? 2,
+    decodeFields: options?.decodeFields ?? schema !== undefined,
+    specialValues: options?.specialValues,
+    dialect,
+    syntax: dialectScanSyntax(dialect),
+    strategies: options?.strategies,
+    trace,
+    log: createLog(options),
+  };
+}
+
+/**
+ * Mutable record of what the pipeline did, filled in when a caller asks for a report
+ */
+export interface ParseTrace {
+  repairs: RepairRecord[];
+  span: JsonSpan | null;
+  candidatesTried: number;
+  strategy: ParseStrategy | null;
+  truncation: Truncation | null;
+}
+
+/**
+ * Creates an empty parse trace
+ */
+export function createTrace(): ParseTrace {
+  return { repairs: [], span: null, candidatesTried: 0, strategy: null, truncation: null };
+}
+
+/**
+ * Text replacement applied during pre-processing, relative to the processed text
+ */
+export interface TextEdit {
+  offset: number;
+  before: string;
+  after: string;
+}
+
+/**
+ * Blanks out reasoning blocks and code that cannot hold the answer, keeping offsets
+ */
+export function prepareInput(llmOutput: string, context: ParseContext): string {
+  return maskCodeFences(stripReasoning(llmOutput, context.reasoning ?? null, context.syntax));
+}
+
+/**
+ * Parse mode: extract and parse JSON without repair
+ */
+export function parseOnly(llmOutput: string, context: ParseContext): unknown {
+  const { rootKind, syntax, trace } = context;
+  const input = prepareInput(llmOutput, context);
+
+  // Try to find first complete JSON object or array
+  const firstJson = findFirstCompleteJson(input, rootKind, syntax);
+
+  if (!firstJson) {
+    // The whole answer may be a bare scalar such as 42 or "yes"
+    const scalar = parseScalar(input);
+    if (scalar) {
+      if (trace) recordScalar(trace, input);
+      return scalar.value;
+    }
+    throw new NoJsonFoundError();
+  }
+
+  if (trace) {
+    trace.candidatesTried = 1;
+    trace.strategy = 'first-complete';
+    trace.span = spanOf(firstJson.start, firstJson.text);
+  }
+
+  return parseStrictCandidate(firstJson, llmOutput, context);
+}
+
+/**
+ * Parses a candidate without repair, as JSON or else with the dialect grammar
+ */
+function parseStrictCandidate(
+  candidate: JsonCandidate,
+  llmOutput: string,
+  context: ParseContext
+): unknown {
+  try {
+    return JSON.parse(candidate.text);
+  } catch (error) {
+    if (context.dialect === 'json') throw syntaxError(error as Error, llmOutput, candidate);
+    return parseDialectCandidate(candidate, error as Error, llmOutput, context);
+  }
+}
+
+/**
+ * Parse mode with a dialect: parses a candidate that is not valid JSON with the
+ * dialect grammar, reporting where that grammar fails
+ */
+function parseDialectCandidate(
+  candidate: JsonCandidate,
+  jsonError: Error,
+  llmOutput: string,
+  context: ParseContext
+): unknown {
+  const dialect = context.dialect as Exclude<Dialect, 'json'>;
+  try {
+    return parseDialect(candidate.text, dialect, context.specialValues);
+  } catch (error) {
+    if (dialect === 'auto' || !(error instanceof DialectSyntaxError)) {
+      throw syntaxError(jsonError, llmOutput, candidate);
+    }
+    throw new JsonSyntaxError(error.message, llmOutput, candidate.start + error.offset);
+  }
+}
+
+/**
+ * Repair mode: runs the repair pipeline (see the `strategies` option)
+ */
+export function parseWithRepair(llmOutput: string, context: ParseContext): unknown {
+  const input = prepareInput(llmOutput, context);
+  const depth = context.decodeDepth ?? 0;
+
+  // The whole answer may be JSON encoded as a string literal: "{\"a\": 1}"
+  const trimmed = input.trim();
+  const layer = depth > 0 ? decodeStringLayer(trimmed) : null;
+  if (layer !== null && looksLikeJson(layer)) {
+    const offset = input.indexOf(trimmed);
+    recordDecode(context, { offset }, trimmed, layer);
+
+    const value = parseWithRepair(layer, { ...context, decodeDepth: depth - 1 });
+    if (context.trace) context.trace.span = spanOf(offset, trimmed);
+    return value;
+  }
+
+  const pipeline = resolvePipeline(context.strategies, builtInStrategies(context));
+  return postprocess(repairJson(input, pipeline, context), pipeline, context);
+}
+
+/**
+ * Built-in repair strategies, bound to the call (see DEFAULT_STRATEGIES for their order)
+ */
+function builtInStrategies(context: ParseContext): RepairStrategy[] {
+  return [
+    {
+      name: 'constants',
+      stage: 'preprocess',
+      preprocess: (text, { record }) => {
+        const edits: LiteralEdit[] = [];
+        const result = normalizeLiterals(text, edits, context.specialValues);
+        for (const edit of edits) record(edit);
+        return result;
+      },
+    },
+    {
+      name: 'split-records',
+      stage: 'preprocess',
+      preprocess: (text, { schema, record }) => {
+        const edits: TextEdit[] = [];
+        const result = splitMergedRecords(text, schema, edits);
+        for (const edit of edits) record({ kind: 'record-split', ...edit });
+        return result;
+      },
+    },
+    {
+      name: 'candidate',
+      stage: 'extract',
+      extract: (text, { rootKind }) => findCandidates(text, rootKind, context.syntax),
+    },
+    {
+      name: 'first-complete',
+      stage: 'extract',
+      extract: (text, { rootKind }) => {
+        const first = findFirstCompleteJson(text, rootKind, context.syntax);
+        return first ? [first] : [];
+      },
+    },
+    { name: 'json', stage: 'parse', parse: (text) => JSON.parse(text) },
+    {
+      name: 'dialect',
+      stage: 'parse',
+      parse: (text) => {
+        if (context.dialect === 'json') throw new Error('No dialect is enabled');
+        return parseDialect(text, context.dialect, context.specialValues);
+      },
+    },
+    { name: 'quotes', stage: 'parse', parse: parseWithQuoteRepair },
+    {
+      name: 'jsonrepair',
+      stage: 'parse',
+      parse: (text, { record }) => parseWithJsonRepair(text, record),
+    },
+    {
+      name: 'decode-strings',
+      stage: 'postprocess',
+      postprocess: (value) => decodeStringFields(value, context),
+    },
+  ];
+}
+
+/**
+ * Extracts and repairs the JSON in prepared input
+ */
+function repairJson(input: string, pipeline: RepairPipeline, context: ParseContext): unknown {
+  const { rootKind, syntax, trace, log } = context;
+  const cleaned = extractOnlyJson(input, rootKind, syntax);
+
+  if (cleaned.startsWith('Invalid input')) {
+    const scalar = parseScalar(input);
+    if (scalar) {
+      if (trace) recordScalar(trace, input);
+      return scalar.value;
+    }
+    throw new NoJsonFoundError();
+  }
+
+  // Offsets map back to the input through the edits of every pre-processing pass
+  const cleanedStart = input.indexOf(cleaned);
+  const passes: TextEdit[][] = [];
+  const toSource = (index: number) =>
+    cleanedStart + passes.reduceRight((offset, edits) => toSourceOffset(offset, edits), index);
+
+  let text = cleaned;
+  for (const strategy of pipeline.preprocess) {
+    const edits: TextEdit[] = [];
+    text = strategy.preprocess(
+      text,
+      strategyContext(context, (repair) => {
+        const offset = repair.offset === undefined ? undefined : toSource(repair.offset);
+        recordRepair(context, strategy.name, repair, offset);
+        const { before, after } = repair;
+        if (repair.offset !== undefined) edits.push({ offset: repair.offset, before, after });
+      })
+    );
+    passes.push(edits);
+  }
+
+  const acceptWinner = (winner: ParsedCandidate, strategy: ParseStrategy) => {
+    const { candidate, repairs } = winner;
+    const span = {
+      start: toSource(candidate.start),
+      end: toSource(candidate.start + candidate.text.length),
+    };
+
+    for (const repair of repairs) {
+      const offset =
+        repair.offset === undefined ? undefined : toSource(candidate.start + repair.offset);
+      recordRepair(context, winner.parser, repair, offset);
+    }
+
+    if (trace) {
+      trace.strategy = strategy;
+      trace.span = span;
+    }
+
+    const truncationScan = candidate.truncated ? detectTruncation(candidate.text) : null;
+    if (truncationScan) {
+      recordTruncation(winner.value, truncationScan, context);
+    }
+    return winner.value;
+  };
+
+  // Each extractor is a fallback for the previous one
+  const attempts: RepairAttempt[] = [];
+  let tried = 0;
+
+  for (const extractor of pipeline.extract) {
+    if (tried > 0) {
+      log('info', 'repair.fallback', `No candidate parsed, falling back to "${extractor.name}"`, {
+        candidates: tried,
+      });
+    }
+
+    const candidates = extractor.extract(
+      text,
+      strategyContext(context, () => undefined)
+    );
+    const parsedCandidates: ParsedCandidate[] = [];
+
+    for (const jsonCandidate of candidates) {
+      tried++;
+      if (trace) trace.candidatesTried++;
+
+      try {
+        parsedCandidates.push(parseCandidate(jsonCandidate, pipeline.parse, context));
+      } catch (error) {
+        const offset = toSource(jsonCandidate.start);
+        const message = (error as Error).message;
+        log(
+          'debug',
+          'repair.candidate-rejected',
+          'Skipped JSON candidate that could not be repaired',
+          {
+            offset,
+            error: message,
+          }
+        );
+        attempts.push({ strategy: extractor.name, offset, error: message });
+        continue;
+      }
+
+      // The first strategy stops at the first candidate that parses
+      if (context.candidateStrategy === 'first') {
+        return acceptWinner(parsedCandidates[0]!, extractor.name);
+      }
+    }
+
+    if (parsedCandidates.length > 0) {
+      const winner = selectCandidate(parsedCandidates, context);
+      log('debug', 'candidate.selected', `Selected candidate by "${context.candidateStrategy}"`, {
+        strategy: context.candidateStrategy,
+        offset: toSource(winner.candidate.start),
+        candidates: parsedCandidates.length,
+      });
+      return acceptWinner(winner, extractor.name);
+    }
+  }
+
+  throw new RepairFailedError(attempts);
+}
+
+/**
+ * Runs the post-processors on a parsed value
+ */
+function postprocess(value: unknown, pipeline: RepairPipeline, context: ParseContext): unknown {
+  let result = value;
+  for (const strategy of pipeline.postprocess) {
+    result = strategy.postprocess(
+      result,
+      strategyContext(context, (repair) =>
+        recordRepair(context, strategy.name, repair, repair.offset)
+      )
+    );
+  }
+  return result;
+}
+
+/**
+ * Parses every top-level JSON document in the input, in order
+ * Nested objects are part of their parent and never returned on their own.
+ * In repair mode each document is repaired independently, a truncated trailing
+ * document is closed off and documents that cannot be repaired are skipped. Parse
+ * mode throws on the first document that does not parse, truncated ones included.
+ */
+export function parseAllDocuments(
+  llmOutput: string,
+  context: ParseContext,
+  repair: boolean
+): unknown[] {
+  const { syntax, log } = context;
+  const input = prepareInput(llmOutput, context);
+  const pipeline = repair ? resolvePipeline(context.strategies, builtInStrategies(context)) : null;
+  const silent = strategyContext(context, () => undefined);
+  const text = (pipeline?.preprocess ?? []).reduce((t, s) => s.preprocess(t, silent), input);
+  const documents: unknown[] = [];
+  const attempts: RepairAttempt[] = [];
+  let found = 0;
+
+  let start = findRootStart(text, undefined, 0, syntax);
+  while (start !== -1) {
+    const complete = findCompleteJsonStartingAt(text, start, syntax);
+    // An opener that never closes swallows the rest of the input (truncated output)
+    const documentText = complete ?? text.slice(start);
+    found++;
+
+    if (!pipeline) {
+      documents.push(parseStrictCandidate({ text: documentText, start }, llmOutput, context));
+    } else {
+      try {
+        const document = parseCandidate(
+          { text: documentText, start },
+          pipeline.parse,
+          context
+        ).value;
+        if (!complete && context.dropIncomplete) {
+          const incomplete = detectTruncation(documentText)?.incomplete;
+          if (incomplete) dropAtPath(document, incomplete);
+        }
+        documents.push(postprocess(document, pipeline, context));
+      } catch (error) {
+        const message = (error as Error).message;
+        log(
+          'debug',
+          'repair.candidate-rejected',
+          'Skipped JSON document that could not be parsed',
+          {
+            offset: start,
+            error: message,
+          }
+        );
+        attempts.push({ strategy: 'candidate', offset: start, error: message });
+      }
+    }
+
+    if (!complete) break;
+    start = findRootStart(text, undefined, start + complete.length, syntax);
+  }
+
+  if (found === 0) {
+    throw new NoJsonFoundError();
+  }
+  if (documents.length === 0) {
+    throw new RepairFailedError(attempts);
+  }
+
+  return documents;
+}
+
+/**
+ * A candidate that parsed, with the parser that succeeded and the repairs it made
+ * (offsets relative to the candidate text)
+ */
+interface ParsedCandidate {
+  candidate: JsonCandidate;
+  value: unknown;
+  parser: string;
+  repairs: StrategyRepair[];
+}
+
+/**
+ * Tries the parsers in order on a candidate, throwing the last error if none succeeds
+ */
+function parseCandidate(
+  candidate: JsonCandidate,
+  parsers: CandidateParser[],
+  context: ParseContext
+): ParsedCandidate {
+  let lastError: unknown = new Error('No parser is enabled');
+
+  for (const parser of parsers) {
+    const repairs: StrategyRepair[] = [];
+    try {
+      const value = parser.parse(
+        candidate.text,
+        strategyContext(context, (repair) => repairs.push(repair))
+      );
+      return { candidate, value, parser: parser.name, repairs };
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError;
+}
+
+/**
+ * Quotes parser: escapes quotes left unescaped inside strings, then parses natively
+ * or, for the remaining syntax errors, with jsonrepair
+ */
+function parseWithQuoteRepair(text: string, { record }: StrategyContext): unknown {
+  const edits: TextEdit[] = [];
+  const fixed = repairUnescapedQuotes(text, edits);
+  if (edits.length === 0) {
+    throw new Error('No unescaped quotes found');
+  }
+
+  for (const edit of edits) record({ kind: 'quote-escape', ...edit });
+  try {
+    return JSON.parse(fixed);
+  } catch {
+    return parseWithJsonRepair(fixed, record, text);
+  }
+}
+
+/**
+ * jsonrepair parser, recording the original and repaired text
+ */
+function parseWithJsonRepair(
+  text: string,
+  record: StrategyContext['record'],
+  original = text
+): unknown {
+  const repaired = jsonrepair(text);
+  const value = JSON.parse(repaired);
+  record({ kind: 'jsonrepair', offset: 0, before: snippet(original), after: snippet(repaired) });
+  return value;
+}
+
+/**
+ * Context handed to strategies, reporting their repairs through `record`
+ */
+function strategyContext(
+  context: ParseContext,
+  record: (repair: StrategyRepair) => void
+): StrategyContext {
+  return { schema: context.schema, rootKind: context.rootKind, record };
+}
+
+/**
+ * Logs and traces a repair made by a strategy, at its offset in the input
+ */
+function recordRepair(
+  context: ParseContext,
+  strategy: string,
+  repair: StrategyRepair,
+  offset: number | undefined
+): void {
+  const { kind = 'custom', path, before, after } = repair;
+  const { log, trace } = context;
+
+  if (kind === 'constant') {
+    log('debug', 'repair.constant', `Normalized constant "${before}" → "${after}"`, {
+      offset,
+      before,
+      after,
+    });
+  } else if (kind === 'record-split') {
+    log('info', 'repair.split', 'Split merged records in an array element', { offset });
+  } else if (kind === 'quote-escape') {
+    log('debug', 'repair.quote', 'Escaped quote inside a string', { offset });
+  } else if (kind === 'single-quote') {
+    log('debug', 'repair.quote', 'Converted a single-quoted string', { offset, before, after });
+  } else if (kind === 'jsonrepair') {
+    log('debug', 'repair.jsonrepair', 'Repaired JSON syntax with jsonrepair', {
+      offset,
+      before,
+      after,
+    });
+  } else {
+    log('debug', 'repair.strategy', `Applied repair strategy "${strategy}"`, {
+      strategy,
+      kind,
+      offset,
+      path,
+    });
+  }
+
+  trace?.repairs.push({
+    kind,
+    ...(offset !== undefined && { offset }),
+    ...(path !== undefined && { path }),
+    before,
+    after,
+    ...(kind === 'custom' && { strategy }),
+  });
+}
+
+/**
+ * Picks the winning candidate according to the candidate strategy
+ * - last: last top-level candidate
+ * - largest: longest candidate text
+ * - best-schema-match: schema validation success, then key overlap, then size
+ */
+function selectCandidate(parsed: ParsedCandidate[], context: ParseContext): ParsedCandidate {
+  const { candidateStrategy, schema } = context;
+  const topLevel = parsed.filter((p) => !p.candidate.nested);
+  const pool = topLevel.length > 0 ? topLevel : parsed;
+
+  if (candidateStrategy === 'last') {
+    return pool[pool.length - 1]!;
+  }
+
+  if (candidateStrategy === 'largest') {
+    return maxBy(parsed, (p) => [p.candidate.text.length]);
+  }
+
+  // Without a schema there is nothing to match, so the first candidate wins
+  if (candidateStrategy === 'best-schema-match' && schema) {
+    return maxBy(parsed, (p) => schemaFitScore(p.value, schema).concat(p.candidate.text.length));
+  }
+
+  return parsed[0]!;
+}
+
+/**
+ * Scores how well a value fits the schema: [validates, overlapping keys]
+ * Root key fixes are taken into account, since they run after selection
+ */
+function schemaFitScore(value: unknown, schema: SchemaNode): number[] {
+  const silent: ParseContext = {
+    candidateStrategy: 'first',
+    dialect: 'json',
+    log: () => undefined,
+  };
+  const fixed = wrapRootIfMissing(value, schema, silent);
+  const validates = schema.safeParse(fixed).success ? 1 : 0;
+  return [validates, keyOverlap(fixed, schema)];
+}
+
+/**
+ * Counts keys of the value that the schema expects, recursively
+ */
+function keyOverlap(value: unknown, schema: SchemaNode): number {
+  if (schema.kind === 'array') {
+    return Array.isArray(value) && value.length > 0
+      ? keyOverlap(value[0], schema.items ?? ANY_SCHEMA)
+      : 0;
+  }
+
+  const shape = schema.shape;
+  if (!shape || !isPlainObject(value)) return 0;
+
+  let overlap = 0;
+  for (const key of Object.keys(value)) {
+    if (hasOwnKey(shape, key)) {
+      overlap += 1 + keyOverlap(value[key], shape[key]!);
+    }
+  }
+  return overlap;
+}
+
+/**
+ * Returns the first item with the highest score, comparing scores element by element
+ */
+function maxBy<T>(items: T[], score: (item: T) => number[]): T {
+  let best = items[0] as T;
+  let bestScore = score(best);
+
+  for (const item of items.slice(1)) {
+    const itemScore = score(item);
+    const index = itemScore.findIndex((n, i) => n !== bestScore[i]);
+    if (index !== -1 && itemScore[index]! > bestScore[index]!) {
+      best = item;
+      bestScore = itemScore;
+    }
+  }
+
+  return best;
+}
+
+/**
+ * Reports a cut-off winner and drops its incomplete element when asked to
+ */
+function recordTruncation(value: unknown, scan: TruncationScan, context: ParseContext): void {
+  const { truncation, incomplete } = scan;
+  const { log, trace } = context;
+
+  log('info', 'repair.truncated', `Output was cut off inside ${truncation.path}`, {
+    path: truncation.path,
+    node: truncation.node,
+  });
+  if (trace) trace.truncation = truncation;
+
+  if (!context.dropIncomplete || !incomplete) return;
+
+  const removed = dropAtPath(value, incomplete);
+  if (removed) {
+    const path = formatPath(incomplete);
+    log('info', 'repair.truncated', `Dropped incomplete element ${path}`, { path });
+    trace?.repairs.push({
+      kind: 'drop-incomplete',
+      path,
+      before: snippet(JSON.stringify(removed.dropped) ?? ''),
+      after: '',
+    });
+  }
+}
+
+/**
+ * Decodes fields that hold stringified JSON, logging and tracing each one
+ */
+function decodeStringFields(value: unknown, context: ParseContext): unknown {
+  const depth = context.decodeDepth ?? 0;
+  if (depth <= 0 || !context.decodeFields) return value;
+
+  const decoded: DecodedString[] = [];
+  const result = decodeStringifiedJson(value, context.schema, depth, decoded);
+  for (const { path, before, after } of decoded) {
+    recordDecode(context, { path }, JSON.stringify(before), JSON.stringify(after));
+  }
+  return result;
+}
+
+/**
+ * Logs and traces one decoded JSON string layer
+ */
+function recordDecode(
+  context: ParseContext,
+  location: { offset: number } | { path: string },
+  before: string,
+  after: string
+): void {
+  context.log('info', 'repair.decoded', 'Decoded JSON encoded as a string', location);
+  context.trace?.repairs.push({
+    kind: 'decode-string',
+    ...location,
+    before: snippet(before),
+    after: snippet(after),
+  });
+}
+
+/**
+ * Records a bare scalar answer in the trace
+ */
+function recordScalar(trace: ParseTrace, input: string): void {
+  const trimmed = input.trim();
+  trace.candidatesTried = 1;
+  trace.strategy = 'scalar';
+  trace.span = spanOf(input.indexOf(trimmed), trimmed);
+}
+
+/**
+ * Builds the character span of a text found at the given offset
+ */
+function spanOf(start: number, text: string): JsonSpan {
+  return { start, end: start + text.length };
+}
+
+/**
+ * Maps an offset in pre-processed text back to the text before pre-processing
+ */
+function toSourceOffset(index: number, edits: TextEdit[]): number {
+  let shift = 0;
+  for (const edit of edits) {
+    if (edit.offset >= index - shift) break;
+    shift += edit.after.length - edit.before.length;
+  }
+  return index - shift;
+}
+
+/**
+ * Shortens text for before/after snippets in reports
+ */
+export function snippet(text: string, max = 80): string {
+  return text.length > max ? text.slice(0, max - 1) + '…' : text;
+}
+
+/**
+ * Turns a native JSON.parse error on a candidate into a JsonSyntaxError located
+ * in the raw input
+ */
+function syntaxError(error: Error, input: string, candidate: JsonCandidate): JsonSyntaxError {
+  const offset = findSyntaxError(candidate.text);
+  const at = candidate.start + (offset === -1 ? candidate.text.length : offset);
+  return new JsonSyntaxError(error.message, input, at);
+}
+
+/**
+ * Fixes root key mismatches in parsed JSON to match schema expectations
+ * Handles: missing keys, wrong key names, or missing wrapper objects
+ */
+export function wrapRootIfMissing(
+  parsed: unknown,
+  schema: SchemaNode,
+  context: ParseContext
+): unknown {
+  const { trace, log } = context;
+
+  if (schema.kind !== 'object') {
+    return parsed;
+  }
+
+  const shape = schema.shape ?? {};
+  const rootKeys = Object.keys(shape);
+
+  if (rootKeys.length !== 1) {
+    return parsed;
+  }
+
+  const expectedRootKey = rootKeys[0]!;
+  const rootSchema = shape[expectedRootKey]!;
+
+  // Already has the correct root key
+  if (parsed && typeof parsed === 'object' && expectedRootKey in parsed) {
+    return parsed;
+  }
+
+  // Case 0: Parsed is a bare array - wrap it when the root key expects that list
+  if (Array.isArray(parsed)) {
+    if (rootSchema.kind === 'array' && rootSchema.safeParse(parsed).success) {
+      log('info', 'root.wrapped', `Wrapped root array in "${expectedRootKey}"`, {
+        key: expectedRootKey,
+      });
+      return recordRootFix(trace, 'root-wrap', parsed, { [expectedRootKey]: parsed });
+    }
+
+    log('warn', 'root.unfixed', `Could not fix root key mismatch for "${expectedRootKey}"`, {
+      key: expectedRootKey,
+    });
+    return parsed;
+  }
+
+  // Check if parsed has only one key (might be wrong name)
+  const parsedKeys = parsed && typeof parsed === 'object' ? Object.keys(parsed) : [];
+
+  // Case 1: Parsed has a different single key - rename it
+  if (parsedKeys.length === 1) {
+    const actualKey = parsedKeys[0]!;
+    const actualValue = (parsed as Record<string, unknown>)[actualKey];
+
+    // Check if types are compatible
+    const actualIsArray = Array.isArray(actualValue);
+    const actualIsObject = typeof actualValue === 'object' && !actualIsArray;
+
+    const isCompatible =
+      (rootSchema.kind === 'array' && actualIsArray) ||
+      (rootSchema.kind === 'object' && actualIsObject);
+
+    if (isCompatible) {
+      // Validate if the actual value matches the expected schema
+      const validation = rootSchema.safeParse(actualValue);
+
+      if (validation.success) {
+        log('info', 'root.renamed', `Renamed root key "${actualKey}" → "${expectedRootKey}"`, {
+          from: actualKey,
+          to: expectedRootKey,
+        });
+        return recordRootFix(trace, 'root-rename', parsed, { [expectedRootKey]: actualValue });
+      }
+    }
+  }
+
+  // Case 2: Check if rootSchema is an object and parsed matches its children (wrap it)
+  if (rootSchema.kind === 'object') {
+    const childShape = rootSchema.shape ?? {};
+    const childKeys = Object.keys(childShape);
+    const hasAllChildren =
+      parsed && typeof parsed === 'object' && childKeys.every((k) => k in parsed);
+
+    if (hasAllChildren) {
+      log('info', 'root.wrapped', `Wrapped missing root key "${expectedRootKey}"`, {
+        key: expectedRootKey,
+      });
+      return recordRootFix(trace, 'root-wrap', parsed, { [expectedRootKey]: parsed });
+    }
+  }
+
+  // Could not fix the structure
+  log('warn', 'root.unfixed', `Could not fix root key mismatch for "${expectedRootKey}"`, {
+    key: expectedRootKey,
+  });
+  return parsed;
+}
+
+/**
+ * Records a root key fix in the trace and returns the fixed value
+ */
+function recordRootFix(
+  trace: ParseTrace | undefined,
+  kind: RepairKind,
+  before: unknown,
+  after: unknown
+) {
+  trace?.repairs.push({
+    kind,
+    path: '$',
+    before: snippet(JSON.stringify(before)),
+    after: snippet(JSON.stringify(after)),
+  });
+  return after;
+}
+
+/**
+ * Root JSON container kinds that can be extracted from LLM output
+ */
+export type RootKind = 'object' | 'array';
+
+/**
+ * Resolves which root container the schema expects, if any
+ */
+export function expectedRootKind(schema?: SchemaNode): RootKind | undefined {
+  if (schema?.kind === 'array') return 'array';
+  if (schema?.kind === 'object') return 'object';
+  return undefined;
+}
+
+const ARRAY_START =
+  /\s*(?:[[{"'\]\-+\d]|\.\d|(?:true|false|null|True|False|None|Infinity|NaN)(?![\w$]))/y;
+
+const SINGLE_BARE_ELEMENT = /^\[\s*[^\s,[\]{}"']+\s*\]$/;
+
+/**
+ * Whether a JSON value can follow the bracket at the given index
+ */
+function opensArrayValue(input: string, index: number): boolean {
+  ARRAY_START.lastIndex = index + 1;
+  return ARRAY_START.test(input);
+}
+
+/**
+ * Classifies the bracket at the given index, so prose like "[note]" or markdown
+ * links are not mistaken for JSON
+ * - none: no JSON value follows the bracket
+ * - citation: a single bare element with prose touching it on its line, as in
+ *   citations ("[2]") or indexes ("arr[0]")
+ * - array: anything else that opens an array
+ */
+function classifyBracket(
+  input: string,
+  index: number,
+  syntax?: ScanSyntax
+): 'none' | 'citation' | 'array' {
+  if (!opensArrayValue(input, index)) return 'none';
+
+  const { end } = scanContainer(input, index, { syntax });
+  if (end === -1 || !SINGLE_BARE_ELEMENT.test(input.slice(index, end))) return 'array';
+
+  // Only line breaks, other JSON or nothing may sit next to it
+  const before = input[skipSpaces(input, index - 1, -1)] ?? '\n';
+  const after = input[skipSpaces(input, end, 1)] ?? '\n';
+  return '\n}]'.includes(before) && '\n[{'.includes(after) ? 'array' : 'citation';
+}
+
+/**
+ * Index of the first character from `from` on, walking in `step` direction, that
+ * is not a space, tab or carriage return
+ */
+function skipSpaces(input: string, from: number, step: 1 | -1): number {
+  let i = from;
+  while (input[i] === ' ' || input[i] === '\t' || input[i] === '\r') i += step;
+  return i;
+}
+
+/**
+ * Checks whether the bracket at the given index plausibly opens a JSON array
+ * A citation only counts when no other root follows it.
+ */
+function looksLikeArrayStart(input: string, index: number, syntax?: ScanSyntax): boolean {
+  const kind = classifyBracket(input, index, syntax);
+  if (kind !== 'citation') return kind === 'array';
+  return lastRootOpener(input) < input.indexOf(']', index);
+}
+
+let lastOpener: { input: string; index: number } | undefined;
+
+/**
+ * Index of the last `{`, or `[` followed by a JSON value, in the input
+ * Computed once per input: the last such opener always counts as a root (no
+ * other root follows it), so a citation has a root after it exactly when this
+ * index lies past the citation.
+ */
+function lastRootOpener(input: string): number {
+  if (lastOpener?.input === input) return lastOpener.index;
+
+  let index = input.lastIndexOf('[');
+  while (index !== -1 && !opensArrayValue(input, index)) {
+    index = input.lastIndexOf('[', index - 1);
+  }
+  index = Math.max(index, input.lastIndexOf('{'));
+  lastOpener = { input, index };
+  return index;
+}
+
+/**
+ * Index of the first bracket that opens an array on its own, or -1
+ * Unlike root detection, citations never count, even as the last bracket.
+ */
+export function findArrayStart(input: string): number {
+  let index = input.indexOf('[');
+  while (index !== -1 && classifyBracket(input, index) !== 'array') {
+    index = input.indexOf('[', index + 1);
+  }
+  return index;
+}
+
+/**
+ * Returns the index of the first root opener, honoring the preferred kind
+ * A preferred opener only wins when it is not nested inside an earlier container
+ */
+export function findRootStart(
+  input: string,
+  preferred?: RootKind,
+  from = 0,
+  syntax?: ScanSyntax
+): number {
+  const objectStart = input.indexOf('{', from);
+  let arrayStart = input.indexOf('[', from);
+  while (arrayStart !== -1 && !looksLikeArrayStart(input, arrayStart, syntax)) {
+    arrayStart = input.indexOf('[', arrayStart + 1);
+  }
+
+  if (objectStart === -1) return arrayStart;
+  if (arrayStart === -1) return objectStart;
+
+  const first = Math.min(objectStart, arrayStart);
+  const firstKind: RootKind = first === arrayStart ? 'array' : 'object';
+  if (!preferred || firstKind === preferred) return first;
+
+  // Skip past the earlier container and look for a preferred one after it
+  const { end } = scanContainer(input, first, { syntax });
+  if (end === -1) return first;
+
+  const next = findRootStart(input, preferred, end, syntax);
+  return next !== -1 && input[next] === (preferred === 'array' ? '[' : '{') ? next : first;
+}
+
+/**
+ * Extracts the substring between the first root opener and its last closer,
+ * or up to the end when the root is cut off
+ * Text after the root's own closer is kept so later candidates can still compete.
+ */
+function extractOnlyJson(str: string, preferred?: RootKind, syntax?: ScanSyntax): string {
+  const start = findRootStart(str, preferred, 0, syntax);
+  if (start === -1) {
+    return 'Invalid input: no braces found.';
+  }
+  if (isCutOff(str, start, syntax)) {
+    return str.slice(start);
+  }
+  const end = str.lastIndexOf(CLOSERS[str[start]!]!) + 1;
+  return str.slice(start, end);
+}
+
+/**
+ * Whether the container opened at `start` never closes
+ * Strings are honored, so a closer inside a cut-off string does not end it
+ */
+function isCutOff(str: string, start: number, syntax?: ScanSyntax): boolean {
+  return scanContainer(str, start, { syntax }).end === -1;
+}
+
+/**
+ * JSON text found in the input along with its start offset
+ */
+export interface JsonCandidate {
+  text: string;
+  start: number;
+
+  /**
+   * Whether the candidate sits inside another candidate
+   */
+  nested?: boolean;
+
+  /**
+   * Whether the candidate is a root that was cut off before closing
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Candidate extractor: every complete JSON object or array, led by the whole text
+ * when its root was cut off (everything else found then lies inside that root)
+ */
+function findCandidates(text: string, preferred?: RootKind, syntax?: ScanSyntax): JsonCandidate[] {
+  const candidates = findAllPossibleJson(text, preferred, syntax);
+  if (!isCutOff(text, 0, syntax)) return candidates;
+
+  const nested = candidates.map((candidate) => ({ ...candidate, nested: true }));
+  return [{ text, start: 0, truncated: true }, ...nested];
+}
+
+/**
+ * Finds every complete JSON object or array in the input
+ * Top-level candidates of the preferred root kind are listed first
+ */
+function findAllPossibleJson(
+  input: string,
+  preferred?: RootKind,
+  syntax?: ScanSyntax
+): JsonCandidate[] {
+  const candidates: JsonCandidate[] = [];
+  const deferred: JsonCandidate[] = [];
+  let topLevelEnd = 0;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    const isObject = char === '{';
+    const isArray = char === '[' && looksLikeArrayStart(input, i, syntax);
+
+    if (isObject || isArray) {
+      const { end } = scanContainer(input, i, { syntax });
+      if (end !== -1) {
+        const kind: RootKind = isArray ? 'array' : 'object';
+        const isTopLevel = i >= topLevelEnd;
+        if (isTopLevel) topLevelEnd = end;
+
+        const isPreferred = !preferred || (isTopLevel && kind === preferred);
+        const candidate = { text: input.slice(i, end), start: i, nested: !isTopLevel };
+        (isPreferred ? candidates : deferred).push(candidate);
+      }
+    }
+  }
+
+  return candidates.concat(deferred);
+}
+
+/**
+ * Returns a balanced JSON object or array starting at a given index
+ */
+export function findCompleteJsonStartingAt(
+  input: string,
+  startIndex: number,
+  syntax?: ScanSyntax
+): string | null {
+  const { end } = scanContainer(input, startIndex, { syntax });
+  return end === -1 ? null : input.substring(startIndex, end);
+}
+
+/**
+ * Finds the first complete JSON object or array in the input
+ */
+function findFirstCompleteJson(
+  input: string,
+  preferred?: RootKind,
+  syntax?: ScanSyntax
+): JsonCandidate | null {
+  const startIndex = findRootStart(input, preferred, 0, syntax);
+  if (startIndex === -1) return null;
+
+  const end = findContainerEnd(input, startIndex, syntax);
+  return end === -1 ? null : { text: input.substring(startIndex, end), start: startIndex };
+}
+
+/**
+ * Index just past the closer of the container opened at `start`, or -1
+ * When a stray quote leaves a string open, the brackets are matched ignoring
+ * quotes, but only if nothing after that closer could still belong to the string
+ * (another bracket or quote), which would rather mean the output was cut off.
+ */
+function findContainerEnd(input: string, start: number, syntax?: ScanSyntax): number {
+  const scan = scanContainer(input, start, { syntax });
+  if (scan.end !== -1 || !scan.inString) return scan.end;
+
+  const { end } = scanContainer(input, start, { honorStrings: false, syntax });
+  if (end === -1) return -1;
+
+  const tail = input.slice(end);
+  const quotes = syntax?.quotes ?? '"';
+  return /[{[]/.test(tail) || [...quotes].some((quote) => tail.includes(quote)) ? -1 : end;
+}
+
+/**
+ * Parses the whole input as a bare JSON scalar (number, string, boolean, null)
+ */
+export function parseScalar(input: string): { value: unknown } | null {
+  const trimmed = input.trim();
+  if (!trimmed) return null;
+  try {
+    const value = JSON.parse(trimmed);
+    return value === null || typeof value !== 'object' ? { value } : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,158 @@
+import { ANY_SCHEMA, isPlainObject, joinPath, SchemaNode } from './schema';
+
+/**
+ * A string value that held JSON and was replaced by the decoded value
+ */
+export interface DecodedString {
+  path: string;
+  before: string;
+  after: unknown;
+}
+
+/**
+ * Removes layers of JSON string encoding around a JSON text, up to `maxDepth`
+ * `"{\"city\": \"Paris\"}"` and the unquoted `{\"city\": \"Paris\"}` (copied out of
+ * another JSON document) both become `{"city": "Paris"}`
+ */
+export function unwrapStringLayers(text: string, maxDepth = 3): string {
+  let current = text;
+
+  for (let depth = 0; depth < maxDepth; depth++) {
+    const decoded = decodeStringLayer(current.trim());
+    if (decoded === null) break;
+    current = decoded;
+  }
+
+  return current;
+}
+
+/**
+ * Decodes one layer of string encoding, or returns null when there is none
+ */
+export function decodeStringLayer(text: string): string | null {
+  if (text.startsWith('"')) {
+    try {
+      const decoded = JSON.parse(text);
+      return typeof decoded === 'string' ? decoded : null;
+    } catch {
+      return null;
+    }
+  }
+
+  // Escaped JSON without its surrounding quotes: {\"a\": 1}
+  if (/^[[{]\s*\\"/.test(text)) {
+    try {
+      return JSON.parse(`"${text}"`);
+    } catch {
+      return null;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Whether decoded text may hold JSON (a container or another string layer)
+ */
+export function looksLikeJson(text: string): boolean {
+  return /^\s*[[{"]/.test(text);
+}
+
+/**
+ * Replaces string values that hold a JSON object or array ("stringified" fields)
+ * with the decoded value, through at most `depth` string layers along any path.
+ * With a schema, a string is only decoded where the schema expects an object,
+ * array or record; without one, every such string is decoded.
+ */
+export function decodeStringifiedJson(
+  value: unknown,
+  schema: SchemaNode | undefined,
+  depth: number,
+  decoded?: DecodedString[],
+  path = '$'
+): unknown {
+  if (depth <= 0) return value;
+
+  if (typeof value === 'string') {
+    if (schema && !expectsContainer(schema)) return value;
+
+    const result = decodeContainer(value, depth);
+    if (!result) return value;
+
+    decoded?.push({ path, before: value, after: result.value });
+    return decodeStringifiedJson(result.value, schema, depth - result.layers, decoded, path);
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, i) =>
+      decodeStringifiedJson(item, childSchema(schema, i), depth, decoded, joinPath(path, i))
+    );
+  }
+
+  if (isPlainObject(value)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        decodeStringifiedJson(item, childSchema(schema, key), depth, decoded, joinPath(path, key)),
+      ])
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Decodes a string holding a JSON object or array, through up to `depth` layers
+ */
+function decodeContainer(text: string, depth: number): { value: unknown; layers: number } | null {
+  let current = text.trim();
+
+  for (let layers = 1; layers <= depth; layers++) {
+    if (current.startsWith('{') || current.startsWith('[')) {
+      try {
+        const value = JSON.parse(current);
+        if (typeof value === 'object' && value !== null) return { value, layers };
+      } catch {
+        // Not plain JSON, it may still be escaped: {\"a\": 1}
+      }
+    }
+
+    const layer = decodeStringLayer(current);
+    if (layer === null || !looksLikeJson(layer)) return null;
+    current = layer.trim();
+  }
+
+  return null;
+}
+
+/**
+ * Whether the schema accepts an object, array or record at this position
+ */
+function expectsContainer(schema: SchemaNode): boolean {
+  if (schema.kind === 'union') return (schema.options ?? []).some(expectsContainer);
+  return schema.kind === 'object' || schema.kind === 'array' || schema.kind === 'record';
+}
+
+/**
+ * Schema of a member or element; a known schema without one gives ANY_SCHEMA,
+ * which never decodes
+ */
+function childSchema(schema: SchemaNode | undefined, key: string | number): SchemaNode | undefined {
+  if (!schema) return undefined;
+
+  switch (schema.kind) {
+    case 'array':
+    case 'record':
+      return schema.items ?? ANY_SCHEMA;
+    case 'object':
+      return (typeof key === 'string' && schema.shape?.[key]) || ANY_SCHEMA;
+    case 'union':
+      for (const option of schema.options ?? []) {
+        const child = childSchema(option, key);
+        if (child !== ANY_SCHEMA) return child;
+      }
+      return ANY_SCHEMA;
+    default:
+      return ANY_SCHEMA;
+  }
+}
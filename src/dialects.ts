@@ -0,0 +1,380 @@
+import { resolveSpecialValue } from './literals';
+import type { ScanSyntax } from './scanner';
+import type { Dialect, SpecialValues } from './types';
+
+/**
+ * Syntax a dialect accepts on top of JSON
+ * Every dialect also accepts comments where it has them, and trailing commas.
+ */
+interface DialectSyntax {
+  lineComments: string[];
+  blockComments: boolean;
+  singleQuotes: boolean;
+  /**
+   * Unquoted identifier keys, as in JavaScript
+   */
+  identifierKeys: boolean;
+  /**
+   * Numbers, booleans and None as keys, converted the way Python's json.dumps does
+   */
+  scalarKeys: boolean;
+  /**
+   * Tuples, parsed as arrays
+   */
+  tuples: boolean;
+  number: RegExp;
+  /**
+   * Bare words accepted as values; non-finite numbers map through `specialValues`
+   */
+  words: Map<string, boolean | number | null>;
+  escapes: Record<string, string>;
+  /**
+   * Hex digits read by each unicode escape
+   */
+  unicodeEscapes: Record<string, number>;
+  /**
+   * What an unknown escape decodes to: an error (JSON), the escaped character
+   * (JavaScript), or the backslash and the character (Python)
+   */
+  unknownEscape: 'fail' | 'char' | 'keep';
+}
+
+const JSON_NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+const JSON5_NUMBER = /[+-]?(?:0[xX][\da-fA-F]+|(?:\d+\.?\d*|\.\d+)(?:[eE][+-]?\d+)?)/y;
+const PYTHON_NUMBER =
+  /[+-]?(?:0[xX](?:_?[\da-fA-F])+|0[oO](?:_?[0-7])+|0[bB](?:_?[01])+|(?:\d(?:_?\d)*(?:\.(?:\d(?:_?\d)*)?)?|\.\d(?:_?\d)*)(?:[eE][+-]?\d(?:_?\d)*)?)/y;
+
+const WORD = /([+-]?)([\p{L}_$][\p{L}\p{N}_$]*)/uy;
+
+const JSON_WORDS: [string, boolean | number | null][] = [
+  ['true', true],
+  ['false', false],
+  ['null', null],
+];
+
+const JSON_ESCAPES: Record<string, string> = {
+  '"': '"',
+  '\\': '\\',
+  '/': '/',
+  b: '\b',
+  f: '\f',
+  n: '\n',
+  r: '\r',
+  t: '\t',
+};
+
+const JSONC: DialectSyntax = {
+  lineComments: ['//'],
+  blockComments: true,
+  singleQuotes: false,
+  identifierKeys: false,
+  scalarKeys: false,
+  tuples: false,
+  number: JSON_NUMBER,
+  words: new Map(JSON_WORDS),
+  escapes: JSON_ESCAPES,
+  unicodeEscapes: { u: 4 },
+  unknownEscape: 'fail',
+};
+
+const DIALECTS: Record<Exclude<Dialect, 'json' | 'auto'>, DialectSyntax> = {
+  jsonc: JSONC,
+  json5: {
+    ...JSONC,
+    singleQuotes: true,
+    identifierKeys: true,
+    number: JSON5_NUMBER,
+    words: new Map([...JSON_WORDS, ['Infinity', Infinity], ['NaN', NaN]]),
+    escapes: { ...JSON_ESCAPES, "'": "'", v: '\v', 0: '\0' },
+    unicodeEscapes: { u: 4, x: 2 },
+    unknownEscape: 'char',
+  },
+  python: {
+    lineComments: ['#'],
+    blockComments: false,
+    singleQuotes: true,
+    identifierKeys: false,
+    scalarKeys: true,
+    tuples: true,
+    number: PYTHON_NUMBER,
+    words: new Map([
+      ...JSON_WORDS,
+      ['True', true],
+      ['False', false],
+      ['None', null],
+      ['inf', Infinity],
+      ['nan', NaN],
+    ]),
+    escapes: {
+      '"': '"',
+      "'": "'",
+      '\\': '\\',
+      a: '\x07',
+      b: '\b',
+      f: '\f',
+      n: '\n',
+      r: '\r',
+      t: '\t',
+      v: '\v',
+      0: '\0',
+    },
+    unicodeEscapes: { u: 4, x: 2, U: 8 },
+    unknownEscape: 'keep',
+  },
+};
+
+/**
+ * Dialects `auto` tries, in order; JSON and JSONC are subsets of JSON5
+ */
+const AUTO_DIALECTS = ['json5', 'python'] as const;
+
+/**
+ * Strings and comments of a dialect, so extraction skips brackets inside them
+ * `auto` accepts those of every dialect it tries; plain JSON needs none.
+ */
+export function dialectScanSyntax(dialect: Dialect): ScanSyntax | undefined {
+  if (dialect === 'json') return undefined;
+
+  const syntaxes = dialect === 'auto' ? AUTO_DIALECTS.map((d) => DIALECTS[d]) : [DIALECTS[dialect]];
+  return {
+    quotes: syntaxes.some((syntax) => syntax.singleQuotes) ? `"'` : '"',
+    lineComments: [...new Set(syntaxes.flatMap((syntax) => syntax.lineComments))],
+    blockComments: syntaxes.some((syntax) => syntax.blockComments),
+  };
+}
+
+/**
+ * Bare words a dialect accepts as values, JSON's first
+ */
+export function dialectWords(dialect: Dialect): string[] {
+  if (dialect === 'json') return JSON_WORDS.map(([word]) => word);
+
+  const syntaxes = dialect === 'auto' ? AUTO_DIALECTS.map((d) => DIALECTS[d]) : [DIALECTS[dialect]];
+  return [...new Set(syntaxes.flatMap((syntax) => [...syntax.words.keys()]))];
+}
+
+/**
+ * Syntax error raised by a dialect parser, at an offset in the parsed text
+ */
+export class DialectSyntaxError extends SyntaxError {
+  constructor(
+    message: string,
+    readonly offset: number
+  ) {
+    super(message);
+    this.name = 'DialectSyntaxError';
+  }
+}
+
+/**
+ * Parses text written in a JSON dialect into JSON values
+ * - jsonc: comments and trailing commas
+ * - json5: JSONC plus single-quoted strings, identifier keys, hex numbers,
+ *   leading or trailing decimal points, `+` signs, Infinity and NaN
+ * - python: literal reprs with True, False, None, tuples (as arrays), `#` comments,
+ *   scalar keys (stringified like json.dumps), hex, octal and binary numbers
+ * - auto: json5, then python
+ * Infinity and NaN become JSON values through `specialValues` (default null).
+ */
+export function parseDialect(
+  text: string,
+  dialect: Exclude<Dialect, 'json'>,
+  specialValues?: SpecialValues
+): unknown {
+  if (dialect !== 'auto') {
+    return parseWithSyntax(text, dialect, specialValues);
+  }
+
+  let firstError: unknown;
+  for (const candidate of AUTO_DIALECTS) {
+    try {
+      return parseWithSyntax(text, candidate, specialValues);
+    } catch (error) {
+      firstError ??= error;
+    }
+  }
+  throw firstError;
+}
+
+function parseWithSyntax(
+  text: string,
+  dialect: keyof typeof DIALECTS,
+  specialValues?: SpecialValues
+): unknown {
+  const syntax = DIALECTS[dialect];
+  let pos = 0;
+
+  const fail = (at = pos): never => {
+    const found = at < text.length ? `token "${text[at]}"` : 'end of input';
+    throw new DialectSyntaxError(`Unexpected ${found} in ${dialect}`, at);
+  };
+
+  const skipSpace = () => {
+    for (;;) {
+      while (pos < text.length && /\s/.test(text[pos]!)) pos++;
+
+      if (syntax.lineComments.some((opener) => text.startsWith(opener, pos))) {
+        const end = text.indexOf('\n', pos);
+        pos = end === -1 ? text.length : end;
+      } else if (syntax.blockComments && text.startsWith('/*', pos)) {
+        const end = text.indexOf('*/', pos + 2);
+        if (end === -1) fail(text.length);
+        pos = end + 2;
+      } else {
+        return;
+      }
+    }
+  };
+
+  const escape = (): string => {
+    const start = pos;
+    const char = text[pos + 1];
+    pos += 2;
+
+    if (char !== undefined && char in syntax.escapes) return syntax.escapes[char]!;
+
+    const digits = char === undefined ? undefined : syntax.unicodeEscapes[char];
+    if (digits !== undefined) {
+      const hex = text.slice(pos, pos + digits);
+      const code = parseInt(hex, 16);
+      if (hex.length !== digits || !/^[\da-fA-F]+$/.test(hex) || code > 0x10ffff) fail(start);
+      pos += digits;
+      return String.fromCodePoint(code);
+    }
+
+    if (syntax.unknownEscape === 'fail' || char === undefined) return fail(start);
+    // A backslash before a line break continues the string on the next line
+    if (char === '\n') return '';
+    if (char === '\r') {
+      if (text[pos] === '\n') pos++;
+      return '';
+    }
+    return syntax.unknownEscape === 'char' ? char : `\\${char}`;
+  };
+
+  const string = (): string => {
+    const quote = text[pos];
+    let result = '';
+    pos++;
+
+    while (pos < text.length) {
+      const char = text[pos]!;
+      if (char === quote) {
+        pos++;
+        return result;
+      }
+      if (char === '\\') {
+        result += escape();
+        continue;
+      }
+      if (char === '\n' || char === '\r' || (syntax.unknownEscape === 'fail' && char < ' ')) {
+        fail();
+      }
+      result += char;
+      pos++;
+    }
+    return fail();
+  };
+
+  const toJson = (value: boolean | number | null) => {
+    if (typeof value !== 'number' || Number.isFinite(value)) return value;
+    const literal = Number.isNaN(value) ? 'NaN' : value > 0 ? 'Infinity' : '-Infinity';
+    return resolveSpecialValue(literal, specialValues);
+  };
+
+  const scalar = (): unknown => {
+    syntax.number.lastIndex = pos;
+    const number = syntax.number.exec(text)?.[0];
+    if (number) {
+      pos += number.length;
+      if (/[\p{L}\p{N}_$.]/u.test(text[pos] ?? '')) fail();
+      // Number() reads hex, octal and binary digits, but not after a sign
+      const digits = number.replace(/^[+-]/, '').replace(/_/g, '');
+      return toJson(number.startsWith('-') ? -Number(digits) : Number(digits));
+    }
+
+    WORD.lastIndex = pos;
+    const match = WORD.exec(text);
+    const [, sign, word] = match ?? [];
+    const value = word === undefined ? undefined : syntax.words.get(word);
+    if (value === undefined || (sign && typeof value !== 'number')) return fail();
+    pos += match![0].length;
+    return toJson(sign === '-' ? -(value as number) : value);
+  };
+
+  const container = (close: string, member: () => void) => {
+    pos++;
+    for (;;) {
+      skipSpace();
+      if (text[pos] === close) {
+        pos++;
+        return;
+      }
+      member();
+      skipSpace();
+      if (text[pos] === ',') {
+        pos++;
+      } else if (text[pos] !== close) {
+        fail();
+      }
+    }
+  };
+
+  const key = (): string => {
+    const start = pos;
+    const char = text[pos];
+    if (char === '"' || (char === "'" && syntax.singleQuotes)) return string();
+
+    if (syntax.identifierKeys) {
+      WORD.lastIndex = pos;
+      const match = WORD.exec(text);
+      if (match && !match[1]) {
+        pos += match[0].length;
+        return match[0];
+      }
+    }
+
+    if (syntax.scalarKeys && char !== '{' && char !== '[' && char !== '(') {
+      const value = scalar();
+      return value === null ? 'null' : String(value);
+    }
+    return fail(start);
+  };
+
+  const value = (): unknown => {
+    skipSpace();
+    const char = text[pos];
+
+    if (char === '{') {
+      const object: Record<string, unknown> = {};
+      container('}', () => {
+        const name = key();
+        skipSpace();
+        if (text[pos] !== ':') fail();
+        pos++;
+        // Defined rather than assigned, so a "__proto__" key stays an own property
+        Object.defineProperty(object, name, {
+          value: value(),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      });
+      return object;
+    }
+
+    if (char === '[' || (char === '(' && syntax.tuples)) {
+      const array: unknown[] = [];
+      container(char === '[' ? ']' : ')', () => array.push(value()));
+      return array;
+    }
+
+    if (char === '"' || (char === "'" && syntax.singleQuotes)) return string();
+    return scalar();
+  };
+
+  const result = value();
+  skipSpace();
+  if (pos < text.length) fail();
+  return result;
+}
@@ -0,0 +1,106 @@
+import type { RawToolCall } from './tools';
+import type { RepairAttempt, SchemaIssue } from './types';
+
+/**
+ * Thrown when the input holds no JSON object, array or bare scalar
+ */
+export class NoJsonFoundError extends Error {
+  constructor() {
+    super('No JSON found in the string.');
+    this.name = 'NoJsonFoundError';
+  }
+}
+
+/**
+ * Thrown in parse mode when the extracted JSON is not valid
+ * Locates the error in the raw input: offset, 1-based line and column, and a
+ * snippet of the input around it.
+ */
+export class JsonSyntaxError extends Error {
+  readonly offset: number;
+  readonly line: number;
+  readonly column: number;
+  readonly snippet: string;
+
+  constructor(reason: string, input: string, offset: number) {
+    const before = input.slice(0, offset);
+    const line = before.split('\n').length;
+    const column = offset - before.lastIndexOf('\n');
+    // Native positions are relative to the extracted JSON, not to the input
+    const cause = reason.replace(/\s+in JSON at position \d+.*$/, '');
+    super(`Failed to parse JSON: ${cause} (line ${line}, column ${column})`);
+    this.name = 'JsonSyntaxError';
+    this.offset = offset;
+    this.line = line;
+    this.column = column;
+    this.snippet = input.slice(Math.max(0, offset - 20), offset + 20);
+  }
+}
+
+/**
+ * Thrown in repair mode when no candidate could be parsed, even after repairs
+ * Lists every attempt with the strategy used and why it failed.
+ */
+export class RepairFailedError extends Error {
+  readonly attempts: RepairAttempt[];
+
+  constructor(attempts: RepairAttempt[]) {
+    const tried = attempts.map(
+      ({ strategy, offset, error }) => `${strategy} at ${offset}: ${error}`
+    );
+    super(
+      'No valid JSON found in the string.' + (tried.length ? ` Tried ${tried.join('; ')}` : '')
+    );
+    this.name = 'RepairFailedError';
+    this.attempts = attempts;
+  }
+}
+
+/**
+ * Thrown when the parsed JSON does not satisfy the provided schema
+ * Carries the validation issues and the value that failed validation
+ */
+export class SchemaMismatchError extends Error {
+  readonly issues: SchemaIssue[];
+  readonly data: unknown;
+
+  constructor(issues: SchemaIssue[], data: unknown) {
+    super('Parsed JSON does not match the schema: ' + formatIssues(issues));
+    this.name = 'SchemaMismatchError';
+    this.issues = issues;
+    this.data = data;
+  }
+}
+
+/**
+ * Formats validation issues as a short single-line summary
+ */
+function formatIssues(issues: SchemaIssue[]): string {
+  return issues
+    .map((issue) => (issue.path.length ? `${issue.path.join('.')}: ` : '') + issue.message)
+    .join('; ');
+}
+
+/**
+ * Thrown when the arguments of a tool call cannot be parsed or do not match the
+ * tool's schema. Carries the call and the underlying error.
+ */
+export class ToolCallError extends Error {
+  readonly toolName: string;
+  readonly toolCallId?: string;
+  readonly index: number;
+  readonly arguments: unknown;
+  readonly cause: unknown;
+
+  constructor(call: RawToolCall, index: number, cause: unknown) {
+    const label = call.id ? `"${call.name}" (${call.id})` : `"${call.name}"`;
+    const reason = cause instanceof Error ? cause.message : String(cause);
+    super(`Could not parse arguments of tool call ${label}: ${reason}`);
+    this.name = 'ToolCallError';
+    this.toolName = call.name;
+    this.toolCallId = call.id;
+    this.index = index;
+    this.arguments = call.arguments;
+    this.cause = cause;
+  }
+}
@@ -0,0 +1,143 @@
+import { applyMask, isInRanges } from './mask';
+import { findStringRanges } from './scanner';
+
+/**
+ * A fenced code block found in markdown, with the offsets of its parts
+ */
+export interface FencedBlock {
+  /**
+   * Lowercased language hint, empty for untagged fences
+   */
+  lang: string;
+
+  /**
+   * Start of the opening fence line
+   */
+  start: number;
+
+  /**
+   * Start of the block content, after the opening fence line
+   */
+  contentStart: number;
+
+  /**
+   * End of the block content, before the closing fence line
+   */
+  contentEnd: number;
+
+  /**
+   * End of the closing fence line, or the end of input for unterminated fences
+   */
+  end: number;
+
+  /**
+   * Whether the closing fence is missing (truncated output)
+   */
+  unterminated: boolean;
+}
+
+/**
+ * Language hints treated as JSON
+ */
+const JSON_LANGS = new Set(['json', 'jsonc', 'json5']);
+
+/**
+ * A fence line: optional indent, three or more backticks or tildes, optional language hint
+ */
+const FENCE_LINE = /^[ \t]*(`{3,}|~{3,})[ \t]*([^\s`]*)[^\n`]*$/;
+
+/**
+ * Finds the fenced code blocks of a markdown text, in order of their opening fence
+ * Fences must start a line outside the string values of a JSON document. A fence
+ * with a language hint always opens a block, so blocks nested inside another block
+ * are found too. Blocks left open at the end of the input run to the end (truncated
+ * output).
+ */
+export function findFencedBlocks(text: string): FencedBlock[] {
+  const blocks: FencedBlock[] = [];
+  const open: { block: FencedBlock; fence: string }[] = [];
+  const strings = findStringRanges(text);
+  let lineStart = 0;
+
+  while (lineStart < text.length) {
+    const newline = text.indexOf('\n', lineStart);
+    const lineEnd = newline === -1 ? text.length : newline;
+    const nextLine = newline === -1 ? text.length : newline + 1;
+    const match = isInRanges(lineStart, strings)
+      ? null
+      : FENCE_LINE.exec(text.slice(lineStart, lineEnd));
+
+    if (match) {
+      const fence = match[1]!;
+      const lang = match[2]!.toLowerCase();
+      const top = open[open.length - 1];
+
+      // A bare fence at least as long as the innermost open one closes it
+      if (top && !lang && fence[0] === top.fence[0] && fence.length >= top.fence.length) {
+        top.block.contentEnd = lineStart;
+        top.block.end = lineEnd;
+        top.block.unterminated = false;
+        open.pop();
+      } else {
+        const block: FencedBlock = {
+          lang,
+          start: lineStart,
+          contentStart: nextLine,
+          contentEnd: text.length,
+          end: text.length,
+          unterminated: true,
+        };
+        blocks.push(block);
+        open.push({ block, fence });
+      }
+    }
+
+    lineStart = nextLine;
+  }
+
+  return blocks;
+}
+
+/**
+ * Blanks out everything except the code blocks that should hold the JSON answer
+ * - Blocks tagged json, jsonc or json5 are preferred, then untagged blocks
+ * - Without such blocks, only other-language blocks are hidden (e.g. a JS snippet)
+ * - Without fences, the text is returned as-is
+ * Blanked characters become spaces and newlines are kept, so offsets stay valid.
+ */
+export function maskCodeFences(text: string): string {
+  const blocks = findFencedBlocks(text);
+  if (blocks.length === 0) return text;
+
+  const jsonBlocks = blocks.filter((block) => JSON_LANGS.has(block.lang));
+  const untaggedBlocks = blocks.filter(
+    (block) => !block.lang && !blocks.some((inner) => isNestedIn(inner, block))
+  );
+  const selected = jsonBlocks.length > 0 ? jsonBlocks : untaggedBlocks;
+
+  const visible = new Array<boolean>(text.length).fill(selected.length === 0);
+  for (const block of selected) {
+    visible.fill(true, block.contentStart, block.contentEnd);
+  }
+  for (const block of blocks) {
+    const isHidden = selected.length === 0 || selected.some((outer) => isNestedIn(block, outer));
+    if (isHidden && !selected.includes(block)) {
+      visible.fill(false, block.start, block.end);
+    }
+    // Fence lines are never part of the JSON
+    visible.fill(false, block.start, block.contentStart);
+    visible.fill(false, block.contentEnd, block.end);
+  }
+
+  const masked = applyMask(text, visible);
+
+  // Selected blocks that turn out empty fall back to the plain brace scan
+  return /\S/.test(masked) ? masked : text;
+}
+
+/**
+ * Whether the inner block sits inside the content of the outer block
+ */
+function isNestedIn(inner: FencedBlock, outer: FencedBlock): boolean {
+  return inner !== outer && inner.start >= outer.contentStart && inner.end <= outer.contentEnd;
+}
@@ -0,0 +1,29 @@
+import { coerceToSchema, resolveCoerceOptions } from './coerce';
+import { ParseContext, wrapRootIfMissing } from './core';
+import { normalizeKeys, resolveFuzzyKeyOptions } from './keys';
+import type { SchemaNode } from './schema';
+import type { ParseOptions } from './types';
+
+/**
+ * Runs the schema-guided fixes (root key, key names, coercion) on a parsed value
+ */
+export function applySchemaFixes(
+  result: unknown,
+  schema: SchemaNode,
+  options: ParseOptions | undefined,
+  context: ParseContext
+): unknown {
+  result = wrapRootIfMissing(result, schema, context);
+
+  const keyOptions = resolveFuzzyKeyOptions(options?.fuzzyKeys);
+  if (keyOptions) {
+    result = normalizeKeys(result, schema, keyOptions, context);
+  }
+
+  const categories = resolveCoerceOptions(options?.coerce);
+  if (categories) {
+    result = coerceToSchema(result, schema, categories, context);
+  }
+
+  return result;
+}
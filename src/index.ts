@@ -1,37 +1,105 @@
-import { jsonrepair } from 'jsonrepair';
-import { z } from 'zod';
-
-/**
- * Parsing mode options:
- * - parse: Only basic JSON extraction and parsing
- * - repair: All repair strategies including jsonrepair and schema fixes
- */
-export type ParseMode = 'parse' | 'repair';
-
-/**
- * Options for parseFromLLM function
- */
-export interface ParseOptions {
-  /**
-   * Parsing mode
-   * @default 'parse'
-   */
-  mode?: ParseMode;
-
-  /**
-   * Optional Zod schema for validation and structural fixes
-   * Only used in repair mode
-   */
-  schema?: z.ZodTypeAny;
-}
+import type { z } from 'zod';
+import type {
+  InferStandardOutput,
+  ParseAllOptions,
+  ParseConfidence,
+  ParseOptions,
+  ParseReport,
+  ParsedToolCall,
+  ParseResultWithReport,
+  RetryOptions,
+  SafeParseResult,
+  SchemaInput,
+  StandardSchemaV1,
+  ToolCallOptions,
+} from './types';
+import { JsonSyntaxError, NoJsonFoundError, SchemaMismatchError, ToolCallError } from './errors';
+import { createLog } from './logger';
+import { buildCorrectionPrompt } from './retry';
+import { applySchemaFixes } from './fixes';
+import { unwrapStringLayers } from './decode';
+import { findToolCalls } from './tools';
+import {
+  ParseContext,
+  ParseTrace,
+  createContext,
+  createTrace,
+  findArrayStart,
+  parseAllDocuments,
+  parseOnly,
+  parseWithRepair,
+} from './core';
+
+export type {
+  CandidateStrategy,
+  Dialect,
+  CoerceOptions,
+  FuzzyKeyOptions,
+  InferStandardOutput,
+  JsonSchema,
+  JsonSchemaType,
+  JsonSpan,
+  ParseAllOptions,
+  ParseConfidence,
+  ParseMode,
+  ParseOptions,
+  ParsedToolCall,
+  ParseReport,
+  ParseResultWithReport,
+  ParseStrategy,
+  ReasoningOptions,
+  RepairAttempt,
+  RepairKind,
+  RepairRecord,
+  RetryFailure,
+  RetryOptions,
+  SafeParseResult,
+  SchemaInput,
+  SchemaIssue,
+  SpecialLiteral,
+  SpecialValues,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  StandardSchemaV1,
+  ToolCallOptions,
+  Truncation,
+} from './types';
+export {
+  JsonSyntaxError,
+  NoJsonFoundError,
+  RepairFailedError,
+  SchemaMismatchError,
+  ToolCallError,
+} from './errors';
+export { buildCorrectionPrompt } from './retry';
+export { registerSchemaAdapter } from './adapters';
+export { DEFAULT_STRATEGIES, registerRepairStrategy } from './pipeline';
+export type { JsonCandidate, RootKind } from './core';
+export type {
+  CandidateExtractor,
+  CandidateParser,
+  RepairStage,
+  RepairStrategy,
+  StrategyContext,
+  StrategyRepair,
+  TextPreprocessor,
+  ValuePostprocessor,
+} from './pipeline';
+export type { SchemaAdapter, SchemaKind, SchemaNode, SchemaResult } from './schema';
+export { configure, consoleLogger } from './logger';
+export type { LogEvent, LogEventName, LogLevel, Logger, LoggingOptions } from './logger';
+export { createStreamingParser, parseFromLLMStream } from './stream';
+export type { StreamEvent, StreamingParseOptions, StreamingParser } from './stream';
 
 /**
  * Parses and extracts JSON from LLM output strings
  *
  * @param input - Raw string from LLM that may contain JSON
  * @param options - Parsing options
- * @returns Parsed JSON object
- * @throws Error if no valid JSON is found
+ * @returns Parsed JSON value (object, array or bare scalar)
+ * @throws NoJsonFoundError if the input holds no JSON
+ * @throws JsonSyntaxError if the JSON is invalid (parse mode)
+ * @throws RepairFailedError if no JSON could be repaired (repair mode)
  *
  * @example
  * ```ts
@@ -43,289 +111,389 @@ export interface ParseOptions {
  * const data = parseFromLLM('{"name": "John"}', { mode: 'repair', schema });
  * ```
  */
-export function parseFromLLM<T = any>(input: string, options?: ParseOptions): T {
-  const mode = options?.mode || 'parse';
-  const schema = options?.schema;
-
-  let result: any;
-
-  if (mode === 'parse') {
-    result = parseOnly(input);
-  } else {
-    result = parseWithRepair(input);
-  }
+export function parseFromLLM<T = unknown>(input: string, options?: ParseOptions): T {
+  return runPipeline(input, options) as T;
+}
 
-  // Apply schema fixes only in repair mode
-  if (mode === 'repair' && schema) {
-    result = wrapRootIfMissing(result, schema);
+/**
+ * Parses every JSON document in LLM output, in order
+ * Handles concatenated documents and NDJSON / JSON Lines. Each document is parsed
+ * (and in repair mode repaired) on its own; objects nested inside another document
+ * are not returned separately.
+ *
+ * @param input - Raw string from LLM that may contain several JSON documents
+ * @param options - Parsing options; `schema` describes a single item
+ * @returns Parsed documents, in input order
+ * @throws SchemaMismatchError if `validate: 'throw'` and an item does not match the schema
+ * @throws JsonSyntaxError in parse mode on the first document that does not parse
+ * @throws NoJsonFoundError, or RepairFailedError when no document can be repaired
+ *
+ * @example
+ * ```ts
+ * parseAllFromLLM('{"id": 1}{"id": 2}\n{"id": 3}'); // [{ id: 1 }, { id: 2 }, { id: 3 }]
+ *
+ * const schema = z.object({ id: z.number() });
+ * parseAllFromLLM(llmOutput, { mode: 'repair', schema, validate: 'skip' });
+ * ```
+ */
+export function parseAllFromLLM<T = unknown>(input: string, options?: ParseAllOptions): T[] {
+  const mode = options?.mode || 'parse';
+  const context = createContext(options);
+  const { schema } = context;
+
+  const documents = parseAllDocuments(input, context, mode === 'repair');
+  if (!schema) return documents as T[];
+
+  const items: T[] = [];
+  for (const document of documents) {
+    const item =
+      mode === 'repair' ? applySchemaFixes(document, schema, options, context) : document;
+
+    if (options?.validate) {
+      const validation = schema.safeParse(item);
+      if (!validation.success) {
+        if (options.validate === 'throw') {
+          throw new SchemaMismatchError(validation.issues, item);
+        }
+        continue;
+      }
+      items.push(validation.data as T);
+    } else {
+      items.push(item as T);
+    }
   }
 
-  return result;
+  return items;
 }
 
 /**
- * Parse mode: extract and parse JSON without repair
+ * Parses JSON from LLM output and validates the result against a schema
+ *
+ * @param input - Raw string from LLM that may contain JSON
+ * @param schema - Zod, Standard Schema or JSON Schema the result must satisfy
+ * @param options - Parsing options
+ * @returns Validated value, typed from a Zod or Standard Schema
+ * @throws SchemaMismatchError if the parsed value does not match the schema
+ * @throws NoJsonFoundError, JsonSyntaxError or RepairFailedError like parseFromLLM
+ *
+ * @example
+ * ```ts
+ * const schema = z.object({ user: z.object({ name: z.string() }) });
+ * const data = parseFromLLMStrict('{"name": "John"}', schema, { mode: 'repair' });
+ * data.user.name; // typed as string
+ * ```
  */
-function parseOnly(input: string): any {
-  // Try to find first complete JSON object
-  const firstJson = findFirstCompleteJson(input);
-
-  if (!firstJson) {
-    throw new Error('No JSON found in the string.');
+export function parseFromLLMStrict<S extends z.ZodTypeAny>(
+  input: string,
+  schema: S,
+  options?: Omit<ParseOptions, 'schema'>
+): z.output<S>;
+export function parseFromLLMStrict<S extends StandardSchemaV1>(
+  input: string,
+  schema: S,
+  options?: Omit<ParseOptions, 'schema'>
+): InferStandardOutput<S>;
+export function parseFromLLMStrict<T = unknown>(
+  input: string,
+  schema: SchemaInput,
+  options?: Omit<ParseOptions, 'schema'>
+): T;
+export function parseFromLLMStrict(
+  input: string,
+  schema: SchemaInput,
+  options?: Omit<ParseOptions, 'schema'>
+): unknown {
+  const strictOptions = { ...options, schema };
+  const context = createContext(strictOptions);
+  const result = runPipeline(input, strictOptions, context);
+  const validation = context.schema!.safeParse(result);
+
+  if (!validation.success) {
+    throw new SchemaMismatchError(validation.issues, result);
   }
 
-  try {
-    return JSON.parse(firstJson);
-  } catch (error: any) {
-    throw new Error('Failed to parse JSON: ' + error.message);
-  }
+  return validation.data;
 }
 
 /**
- * Pre-processes JSON text to fix common LLM issues before parsing
+ * Parses JSON from LLM output without throwing, like Zod's `safeParse`
+ * With a schema the value is also validated. On failure, `partial` holds the best
+ * value recovered anyway: the value that failed validation, or the repair mode
+ * result when parse mode hit a syntax error or unclosed JSON.
+ *
+ * @param input - Raw string from LLM that may contain JSON
+ * @param options - Parsing options
+ * @returns `{ success: true, data }` or `{ success: false, error, partial }`
+ *
+ * @example
+ * ```ts
+ * const result = safeParseFromLLM(llmOutput, { schema });
+ * if (result.success) {
+ *   use(result.data);
+ * } else {
+ *   metrics.increment(result.error.name);
+ * }
+ * ```
  */
-function preprocessJson(text: string): string {
-  // 1. Complete partial boolean/null constants
-  // Match: tru, fals, nul (but not true, false, null)
-  // Lookahead: must be followed by comma, closing brace/bracket, or whitespace
-  text = text.replace(/:\s*(tru)(?=[,}\]\s]|$)/g, ': true');
-  text = text.replace(/:\s*(fals)(?=[,}\]\s]|$)/g, ': false');
-  text = text.replace(/:\s*(nul)(?=[,}\]\s]|$)/g, ': null');
-
-  // 2. Extended null aliases (none, nil)
-  text = text.replace(/:\s*(none|nil)(?=[,}\]\s]|$)/g, ': null');
-
-  // 3. Case-insensitive constants
-  text = text.replace(/:\s*TRUE(?=[,}\]\s]|$)/gi, ': true');
-  text = text.replace(/:\s*FALSE(?=[,}\]\s]|$)/gi, ': false');
-  text = text.replace(/:\s*NULL(?=[,}\]\s]|$)/gi, ': null');
-
-  return text;
+export function safeParseFromLLM<S extends z.ZodTypeAny>(
+  input: string,
+  options: Omit<ParseOptions, 'schema'> & { schema: S }
+): SafeParseResult<z.output<S>>;
+export function safeParseFromLLM<S extends StandardSchemaV1>(
+  input: string,
+  options: Omit<ParseOptions, 'schema'> & { schema: S }
+): SafeParseResult<InferStandardOutput<S>>;
+export function safeParseFromLLM<T = unknown>(
+  input: string,
+  options?: ParseOptions
+): SafeParseResult<T>;
+export function safeParseFromLLM(input: string, options?: ParseOptions): SafeParseResult {
+  try {
+    const context = createContext(options);
+    const data = runPipeline(input, options, context);
+    if (!context.schema) return { success: true, data };
+
+    const validation = context.schema.safeParse(data);
+    if (validation.success) return { success: true, data: validation.data };
+    return {
+      success: false,
+      error: new SchemaMismatchError(validation.issues, data),
+      partial: data,
+    };
+  } catch (caught) {
+    const error = caught instanceof Error ? caught : new Error(String(caught));
+    return { success: false, error, partial: recoverPartial(input, options, error) };
+  }
 }
 
 /**
- * Repair mode: multiple strategies with repair
+ * Best-effort value for a failed parse: a parse mode syntax error, or missing JSON
+ * when the input still opens an object or array, is retried in repair mode. Other
+ * failures have nothing to recover
  */
-function parseWithRepair(input: string): any {
-  const cleaned = extractOnlyJson(input);
-
-  if (cleaned.startsWith('Invalid input')) {
-    throw new Error('No JSON found in the string.');
-  }
-
-  // Pre-process to fix common LLM issues
-  const preprocessed = preprocessJson(cleaned);
-
-  // Strategy 1: Try all possible JSON candidates
-  const possibleJson = findAllPossibleJson(preprocessed);
-
-  for (const jsonCandidate of possibleJson) {
-    // Try native JSON.parse first (fast path)
-    try {
-      return JSON.parse(jsonCandidate);
-    } catch (parseError) {
-      // Try jsonrepair as fallback
-      try {
-        const repaired = jsonrepair(jsonCandidate);
-        return JSON.parse(repaired);
-      } catch (repairError) {
-        continue;
-      }
-    }
+function recoverPartial(input: string, options: ParseOptions | undefined, error: Error): unknown {
+  const unclosed = error instanceof NoJsonFoundError && /[{[]/.test(input);
+  if (!(error instanceof JsonSyntaxError) && !unclosed) return undefined;
+  try {
+    return runPipeline(input, { ...options, mode: 'repair' });
+  } catch {
+    return undefined;
   }
+}
 
-  // Strategy 2: Fallback to first complete JSON
-  const firstJson = findFirstCompleteJson(preprocessed);
-  if (firstJson) {
+/**
+ * Parses JSON from LLM output, asking the model to fix its output when parsing or
+ * schema validation fails
+ * Builds a correction prompt from the error or the schema issues, passes it to `fix`
+ * and runs the new output back through the repair pipeline, up to `maxAttempts`.
+ *
+ * @param input - Raw string from LLM that may contain JSON
+ * @param options - Parsing options plus the `fix` callback; mode defaults to 'repair'
+ * @returns Parsed value, validated and typed when a schema is given
+ * @throws The last attempt's error (SchemaMismatchError or a parse error) when all attempts fail
+ *
+ * @example
+ * ```ts
+ * const data = await parseWithRetry(llmOutput, {
+ *   schema,
+ *   fix: async (prompt) => (await client.chat({ messages: [...history, prompt] })).text,
+ * });
+ * ```
+ */
+export function parseWithRetry<S extends z.ZodTypeAny>(
+  input: string,
+  options: RetryOptions<S> & { schema: S }
+): Promise<z.output<S>>;
+export function parseWithRetry<S extends StandardSchemaV1>(
+  input: string,
+  options: RetryOptions<S> & { schema: S }
+): Promise<InferStandardOutput<S>>;
+export function parseWithRetry<T = unknown>(input: string, options: RetryOptions): Promise<T>;
+export async function parseWithRetry(input: string, options: RetryOptions): Promise<unknown> {
+  const { fix, maxAttempts = 3, buildPrompt = buildCorrectionPrompt, ...parseOptions } = options;
+  const { schema, ...rest } = { mode: 'repair' as const, ...parseOptions };
+  const log = createLog(options);
+
+  let output = input;
+  for (let attempt = 1; ; attempt++) {
     try {
-      return JSON.parse(firstJson);
-    } catch (parseError) {
-      const repaired = jsonrepair(firstJson);
-      return JSON.parse(repaired);
+      return schema ? parseFromLLMStrict(output, schema, rest) : parseFromLLM(output, rest);
+    } catch (caught) {
+      if (attempt >= maxAttempts) throw caught;
+
+      const error = caught as Error;
+      log('info', 'retry.failed', `Attempt ${attempt} failed, asking the model to fix it`, {
+        attempt,
+        error: error.message,
+      });
+      const failure = { attempt, output, error };
+      output = await fix(buildPrompt(failure), failure);
     }
   }
-
-  throw new Error('No valid JSON found in the string.');
 }
 
 /**
- * Fixes root key mismatches in parsed JSON to match schema expectations
- * Handles: missing keys, wrong key names, or missing wrapper objects
+ * Extracts tool calls from a model response and parses their arguments
+ * Accepts OpenAI `tool_calls` (or the whole message / response), Anthropic `tool_use`
+ * blocks, or the serialized message text. String arguments are unwrapped from extra
+ * JSON string layers, then run through the pipeline with the tool's schema.
+ *
+ * @param input - Tool calls, a message or response object, or its raw text
+ * @param options - Parsing options plus per-tool `schemas`; mode defaults to 'repair'
+ * @returns Tool calls in order, with parsed arguments
+ * @throws ToolCallError if the arguments of a call cannot be parsed, or do not match
+ * its schema with `validate: 'throw'`
+ * @throws NoJsonFoundError if `input` is text without JSON
+ *
+ * @example
+ * ```ts
+ * const calls = parseToolCalls(response.choices[0].message, {
+ *   schemas: { get_weather: z.object({ city: z.string() }) },
+ * });
+ * calls[0].arguments.city;
+ * ```
  */
-function wrapRootIfMissing(parsed: any, schema: z.ZodTypeAny): any {
-  // Check if schema is ZodObject using duck typing instead of instanceof
-  // This avoids issues with multiple Zod instances in the dependency tree
-  const isZodObject = schema && typeof schema === 'object' && 'shape' in schema && schema._def?.typeName === 'ZodObject';
+export function parseToolCalls<T = unknown>(
+  input: unknown,
+  options?: ToolCallOptions
+): ParsedToolCall<T>[] {
+  const { schemas, validate, ...parseOptions } = { mode: 'repair' as const, ...options };
+  const { decodeDepth } = createContext(parseOptions);
+  const payload =
+    typeof input === 'string'
+      ? parseFromLLM(unwrapStringLayers(input, decodeDepth), parseOptions)
+      : input;
+
+  const calls: ParsedToolCall<T>[] = [];
+  for (const [index, call] of findToolCalls(payload).entries()) {
+    const callOptions = { ...parseOptions, schema: schemas?.[call.name] };
+    const context = createContext(callOptions);
 
-  if (!isZodObject) {
-    return parsed;
-  }
-
-  const shape = (schema as any).shape;
-  const rootKeys = Object.keys(shape);
-
-  if (rootKeys.length !== 1) {
-    return parsed;
-  }
-
-  const expectedRootKey = rootKeys[0]!;
-  const rootSchema = shape[expectedRootKey];
-
-  // Already has the correct root key
-  if (parsed && typeof parsed === 'object' && expectedRootKey in parsed) {
-    return parsed;
-  }
-
-  // Check if parsed has only one key (might be wrong name)
-  const parsedKeys = parsed && typeof parsed === 'object' ? Object.keys(parsed) : [];
-
-  // Case 1: Parsed has a different single key - rename it
-  if (parsedKeys.length === 1) {
-    const actualKey = parsedKeys[0]!;
-    const actualValue = parsed[actualKey];
-
-    // Check if types are compatible
-    const expectedTypeName = rootSchema._def?.typeName;
-    const actualIsArray = Array.isArray(actualValue);
-    const actualIsObject = typeof actualValue === 'object' && !actualIsArray;
-
-    const isCompatible =
-      (expectedTypeName === 'ZodArray' && actualIsArray) ||
-      (expectedTypeName === 'ZodObject' && actualIsObject);
-
-    if (isCompatible) {
-      // Validate if the actual value matches the expected schema
-      const validation = rootSchema.safeParse(actualValue);
+    try {
+      let args = parseToolArguments(call.arguments, callOptions, context);
 
-      if (validation.success) {
-        console.log(`✅ json-llm-repair: Renamed root key "${actualKey}" → "${expectedRootKey}"`);
-        return { [expectedRootKey]: actualValue };
+      if (context.schema && validate) {
+        const validation = context.schema.safeParse(args);
+        if (!validation.success) {
+          if (validate === 'skip') continue;
+          throw new SchemaMismatchError(validation.issues, args);
+        }
+        args = validation.data;
       }
-    }
-  }
 
-  // Case 2: Check if rootSchema is ZodObject and parsed matches its children (wrap it)
-  const isRootZodObject = rootSchema && typeof rootSchema === 'object' && 'shape' in rootSchema && rootSchema._def?.typeName === 'ZodObject';
-
-  if (isRootZodObject) {
-    const childShape = rootSchema.shape;
-    const childKeys = Object.keys(childShape);
-    const hasAllChildren =
-      parsed && typeof parsed === 'object' && childKeys.every((k) => k in parsed);
-
-    if (hasAllChildren) {
-      console.log(`✅ json-llm-repair: Wrapped missing root key "${expectedRootKey}"`);
-      return { [expectedRootKey]: parsed };
+      calls.push({ id: call.id, name: call.name, arguments: args as T });
+    } catch (error) {
+      throw new ToolCallError(call, index, error);
     }
   }
 
-  // Could not fix the structure
-  console.log(`❌ json-llm-repair: Could not fix root key mismatch for "${expectedRootKey}"`);
-  return parsed;
+  return calls;
 }
 
 /**
- * Extracts the substring between the first and last braces
+ * Parses one tool call's arguments: JSON strings go through the pipeline, objects
+ * only get the schema fixes
  */
-function extractOnlyJson(str: string): string {
-  const start = str.indexOf('{');
-  const end = str.lastIndexOf('}') + 1;
-  if (start !== -1 && end !== -1) {
-    return str.slice(start, end);
+function parseToolArguments(args: unknown, options: ParseOptions, context: ParseContext): unknown {
+  if (typeof args === 'string') {
+    const text = unwrapStringLayers(args, context.decodeDepth);
+    return text.trim() === '' ? {} : runPipeline(text, options, context);
   }
-  return 'Invalid input: no braces found.';
+
+  const value = args ?? {};
+  return options.mode === 'repair' && context.schema
+    ? applySchemaFixes(value, context.schema, options, context)
+    : value;
 }
 
 /**
- * Finds every complete JSON object in the input
+ * Parses JSON from LLM output and reports how it was extracted and repaired
+ *
+ * @param input - Raw string from LLM that may contain JSON
+ * @param options - Parsing options
+ * @returns Parsed value with a report of the applied repairs
+ * @throws NoJsonFoundError, JsonSyntaxError or RepairFailedError like parseFromLLM
+ *
+ * @example
+ * ```ts
+ * const { data, report } = parseFromLLMWithReport('{name: "John"}', { mode: 'repair' });
+ * if (report.confidence === 'low') alertHeavyRepair(report.repairs);
+ * ```
  */
-function findAllPossibleJson(input: string): string[] {
-  const candidates: string[] = [];
-
-  for (let i = 0; i < input.length; i++) {
-    if (input[i] === '{') {
-      const jsonCandidate = findCompleteJsonStartingAt(input, i);
-      if (jsonCandidate) {
-        candidates.push(jsonCandidate);
-      }
-    }
-  }
-
-  return candidates;
+export function parseFromLLMWithReport<T = unknown>(
+  input: string,
+  options?: ParseOptions
+): ParseResultWithReport<T> {
+  const trace = createTrace();
+  const data = runPipeline(input, options, createContext(options, trace)) as T;
+  return { data, report: buildReport(options?.mode || 'parse', trace) };
 }
 
 /**
- * Returns a balanced JSON object starting at a given index
+ * Runs the parse or repair pipeline; pass a context with a trace to record one
  */
-function findCompleteJsonStartingAt(input: string, startIndex: number): string | null {
-  let braceCount = 0;
-  let inString = false;
-  let escapeNext = false;
-
-  for (let i = startIndex; i < input.length; i++) {
-    const char = input[i];
-
-    if (escapeNext) {
-      escapeNext = false;
-      continue;
-    }
+function runPipeline(
+  input: string,
+  options?: ParseOptions,
+  context = createContext(options)
+): unknown {
+  const mode = options?.mode || 'parse';
+  const { schema } = context;
 
-    if (char === '\\') {
-      escapeNext = true;
-      continue;
-    }
+  let result: unknown;
 
-    if (char === '"' && !escapeNext) {
-      inString = !inString;
-      continue;
-    }
+  if (mode === 'parse') {
+    result = parseOnly(input, context);
+  } else {
+    result = parseWithRepair(input, context);
+  }
 
-    if (!inString) {
-      if (char === '{') {
-        braceCount++;
-      } else if (char === '}') {
-        braceCount--;
-        if (braceCount === 0) {
-          return input.substring(startIndex, i + 1);
-        }
-      }
-    }
+  // Apply schema fixes only in repair mode
+  if (mode === 'repair' && schema) {
+    result = applySchemaFixes(result, schema, options, context);
   }
 
-  return null;
+  return result;
 }
 
 /**
- * Finds the first complete JSON object in the input
+ * Turns a pipeline trace into a public report with a confidence level
  */
-function findFirstCompleteJson(input: string): string | null {
-  let braceCount = 0;
-  let startIndex = -1;
-
-  for (let i = 0; i < input.length; i++) {
-    const char = input[i];
-
-    if (char === '{') {
-      if (startIndex === -1) startIndex = i;
-      braceCount++;
-    } else if (char === '}') {
-      braceCount--;
-      if (braceCount === 0 && startIndex !== -1) {
-        return input.substring(startIndex, i + 1);
-      }
-    }
+function buildReport(mode: ParseReport['mode'], trace: ParseTrace): ParseReport {
+  const usedJsonRepair = trace.repairs.some((r) => r.kind === 'jsonrepair');
+
+  let confidence: ParseConfidence = 'high';
+  if (trace.repairs.length > 0) confidence = 'medium';
+  if (trace.strategy === 'first-complete' && mode === 'repair') confidence = 'low';
+  if (trace.truncation) confidence = 'low';
+  if (trace.repairs.length >= 3 || (usedJsonRepair && trace.candidatesTried > 1)) {
+    confidence = 'low';
   }
 
-  return null;
+  return {
+    mode,
+    repairs: trace.repairs,
+    span: trace.span,
+    candidatesTried: trace.candidatesTried,
+    strategy: trace.strategy,
+    usedJsonRepair,
+    confidence,
+    truncated: trace.truncation !== null,
+    truncation: trace.truncation,
+  };
 }
 
 /**
- * Checks whether the string may contain JSON braces
+ * Checks whether the string may contain JSON braces or array brackets
+ * A single bare element in prose, such as a citation ("see [1]"), is not counted.
  */
 export function hasPossibleJson(str: string): boolean {
   const start = str.indexOf('{');
   const end = str.lastIndexOf('}') + 1;
-  return start > -1 && end > 1;
+  if (start > -1 && end > 1) return true;
+
+  const arrayStart = findArrayStart(str);
+  return arrayStart !== -1 && str.lastIndexOf(']') > arrayStart;
 }
 
 /**
@@ -0,0 +1,216 @@
+import { defineLazy, isPlainObject, SchemaAdapter, SchemaNode } from './schema';
+import type { JsonSchema, JsonSchemaType, SchemaIssue } from './types';
+
+type PathSegment = string | number;
+
+/**
+ * Fallback adapter: any other plain object is read as a JSON Schema
+ */
+export const jsonSchemaAdapter: SchemaAdapter = {
+  name: 'json-schema',
+  matches: isPlainObject,
+  describe: (schema) => describeJsonSchema(schema as JsonSchema),
+};
+
+/**
+ * Describes a JSON Schema object for the schema-guided steps
+ * Understands type, properties, required, items, enum, additionalProperties,
+ * default and anyOf; other keywords are ignored
+ */
+export function describeJsonSchema(schema: JsonSchema, optional = false): SchemaNode {
+  const node: SchemaNode = {
+    kind: 'other',
+    optional: optional || 'default' in schema,
+    safeParse(value) {
+      const issues = validateJsonSchema(schema, value);
+      return issues.length === 0 ? { success: true, data: value } : { success: false, issues };
+    },
+  };
+  if ('default' in schema) {
+    node.defaultValue = () => structuredCopy(schema.default);
+  }
+
+  const types = toArray(schema.type);
+  const nullable =
+    types.includes('null') || !!schema.anyOf?.some((option) => option.type === 'null');
+  if (nullable) node.optional = true;
+
+  if (schema.enum) {
+    node.kind = 'enum';
+    node.values = schema.enum;
+    return node;
+  }
+
+  // anyOf and multi-type schemas become unions; a single non-null option is used as is
+  const options = schema.anyOf
+    ? schema.anyOf.filter((option) => option.type !== 'null')
+    : types.filter((type) => type !== 'null').map((type) => ({ ...schema, type }));
+  if (options.length > 1) {
+    node.kind = 'union';
+    defineLazy(node, 'options', () => options.map((option) => describeJsonSchema(option)));
+    return node;
+  }
+  if (schema.anyOf) {
+    if (!options[0]) return node;
+    const single = describeJsonSchema(options[0], node.optional);
+    single.safeParse = node.safeParse;
+    return single;
+  }
+
+  const type = options[0]?.type ?? inferType(schema);
+  switch (type) {
+    case 'object':
+      if (!schema.properties && isPlainObject(schema.additionalProperties)) {
+        const values = schema.additionalProperties;
+        node.kind = 'record';
+        defineLazy(node, 'items', () => describeJsonSchema(values));
+        break;
+      }
+      node.kind = 'object';
+      node.strict = schema.additionalProperties === false;
+      defineLazy(node, 'shape', () => {
+        const required = schema.required ?? [];
+        return Object.fromEntries(
+          Object.entries(schema.properties ?? {}).map(([key, property]) => [
+            key,
+            describeJsonSchema(property, !required.includes(key)),
+          ])
+        );
+      });
+      break;
+    case 'array':
+      node.kind = 'array';
+      defineLazy(node, 'items', () => describeJsonSchema(schema.items ?? {}));
+      break;
+    case 'number':
+    case 'integer':
+      node.kind = 'number';
+      break;
+    case 'boolean':
+      node.kind = 'boolean';
+      break;
+  }
+
+  return node;
+}
+
+/**
+ * Validates a value against a JSON Schema, returning Zod-like issues
+ */
+export function validateJsonSchema(schema: JsonSchema, value: unknown): SchemaIssue[] {
+  const issues: SchemaIssue[] = [];
+  validate(schema, value, [], issues);
+  return issues;
+}
+
+function validate(
+  schema: JsonSchema,
+  value: unknown,
+  path: PathSegment[],
+  issues: SchemaIssue[]
+): void {
+  const types = toArray(schema.type);
+  if (types.length > 0 && !types.some((type) => matchesType(type, value))) {
+    issues.push({
+      code: 'invalid_type',
+      path,
+      message: `Expected ${types.join(' | ')}, received ${typeOf(value)}`,
+    });
+    return;
+  }
+
+  if (
+    schema.anyOf &&
+    !schema.anyOf.some((option) => validateJsonSchema(option, value).length === 0)
+  ) {
+    issues.push({ code: 'invalid_union', path, message: 'Invalid input' });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.some((option) => sameValue(option, value))) {
+    const expected = schema.enum.map((option) => JSON.stringify(option)).join(' | ');
+    issues.push({
+      code: 'invalid_enum_value',
+      path,
+      message: `Invalid enum value. Expected ${expected}, received ${JSON.stringify(value)}`,
+    });
+    return;
+  }
+
+  if (isPlainObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) {
+        issues.push({ code: 'invalid_type', path: [...path, key], message: 'Required' });
+      }
+    }
+
+    const unknownKeys: string[] = [];
+    for (const [key, item] of Object.entries(value)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        validate(property, item, [...path, key], issues);
+      } else if (schema.additionalProperties === false) {
+        unknownKeys.push(key);
+      } else if (isPlainObject(schema.additionalProperties)) {
+        validate(schema.additionalProperties, item, [...path, key], issues);
+      }
+    }
+    if (unknownKeys.length > 0) {
+      const keys = unknownKeys.map((key) => `'${key}'`).join(', ');
+      issues.push({
+        code: 'unrecognized_keys',
+        path,
+        message: `Unrecognized key(s) in object: ${keys}`,
+      });
+    }
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    value.forEach((item, i) => validate(schema.items!, item, [...path, i], issues));
+  }
+}
+
+/**
+ * Guesses the type of a schema without `type` from the keywords it uses
+ */
+function inferType(schema: JsonSchema): JsonSchemaType | undefined {
+  if (schema.properties || schema.additionalProperties !== undefined) return 'object';
+  if (schema.items) return 'array';
+  return undefined;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    default:
+      return typeOf(value) === type;
+  }
+}
+
+/**
+ * JSON type name of a value, as used in issue messages
+ */
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return a === b || JSON.stringify(a) === JSON.stringify(b);
+}
+
+function toArray<T>(value: T | T[] | undefined): T[] {
+  if (value === undefined) return [];
+  return Array.isArray(value) ? value : [value];
+}
+
+/**
+ * Copies a default value so callers never share it
+ */
+function structuredCopy(value: unknown): unknown {
+  return value === undefined ? undefined : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,188 @@
+import { ParseContext, snippet } from './core';
+import {
+  ANY_SCHEMA,
+  hasOwnKey,
+  isPlainObject,
+  joinPath,
+  SchemaNode,
+  setOwnProperty,
+} from './schema';
+import type { FuzzyKeyOptions } from './types';
+
+/**
+ * Resolves the `fuzzyKeys` option, or null when key matching is disabled
+ */
+export function resolveFuzzyKeyOptions(
+  fuzzyKeys: boolean | FuzzyKeyOptions | undefined
+): Required<FuzzyKeyOptions> | null {
+  if (!fuzzyKeys) return null;
+  return { maxDistance: fuzzyKeys === true ? 0 : (fuzzyKeys.maxDistance ?? 0) };
+}
+
+/**
+ * Renames misnamed object keys to the names the schema expects, at any depth
+ * Matches camelCase/snake_case/kebab-case and capitalization variants, plus an
+ * optional edit distance. Ambiguous matches are never remapped.
+ */
+export function normalizeKeys(
+  value: unknown,
+  schema: SchemaNode,
+  options: Required<FuzzyKeyOptions>,
+  context: ParseContext,
+  path = '$'
+): unknown {
+  switch (schema.kind) {
+    case 'object':
+      return isPlainObject(value)
+        ? normalizeObjectKeys(value, schema, options, context, path)
+        : value;
+
+    case 'array':
+      if (!Array.isArray(value)) return value;
+      return value.map((item, i) =>
+        normalizeKeys(item, schema.items ?? ANY_SCHEMA, options, context, joinPath(path, i))
+      );
+
+    case 'record':
+      if (!isPlainObject(value)) return value;
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [
+          key,
+          normalizeKeys(item, schema.items ?? ANY_SCHEMA, options, context, joinPath(path, key)),
+        ])
+      );
+
+    case 'union': {
+      // Only recurse when exactly one object option exists, otherwise the target is unclear
+      const objectOptions = (schema.options ?? []).filter((option) => option.kind === 'object');
+      return objectOptions.length === 1
+        ? normalizeKeys(value, objectOptions[0]!, options, context, path)
+        : value;
+    }
+
+    default:
+      return value;
+  }
+}
+
+/**
+ * Renames the keys of one object and recurses into its fields
+ */
+function normalizeObjectKeys(
+  value: Record<string, unknown>,
+  schema: SchemaNode,
+  options: Required<FuzzyKeyOptions>,
+  context: ParseContext,
+  path: string
+): Record<string, unknown> {
+  const shape = schema.shape ?? {};
+  const renames = matchKeys(Object.keys(value), Object.keys(shape), options.maxDistance);
+  const result: Record<string, unknown> = {};
+
+  for (const [key, item] of Object.entries(value)) {
+    const targetKey = renames.get(key) ?? key;
+
+    if (targetKey !== key) {
+      const keyPath = joinPath(path, key);
+      context.log('info', 'key.renamed', `Renamed key ${keyPath} → "${targetKey}"`, {
+        path: keyPath,
+        from: key,
+        to: targetKey,
+      });
+      context.trace?.repairs.push({
+        kind: 'key-rename',
+        path: keyPath,
+        before: snippet(JSON.stringify(key)),
+        after: snippet(JSON.stringify(targetKey)),
+      });
+    }
+
+    const fieldSchema = hasOwnKey(shape, targetKey) ? shape[targetKey] : undefined;
+    const normalized = fieldSchema
+      ? normalizeKeys(item, fieldSchema, options, context, joinPath(path, targetKey))
+      : item;
+    setOwnProperty(result, targetKey, normalized);
+  }
+
+  return result;
+}
+
+/**
+ * Maps actual keys to expected keys they unambiguously stand for
+ * A key is only remapped when it has a single best match and no other key claims it
+ */
+function matchKeys(actualKeys: string[], expectedKeys: string[], maxDistance: number) {
+  const present = new Set(actualKeys);
+  const unknownKeys = actualKeys.filter((key) => !expectedKeys.includes(key));
+  const missingKeys = expectedKeys.filter((key) => !present.has(key));
+
+  const proposals = new Map<string, string>();
+  const claims = new Map<string, number>();
+
+  for (const key of unknownKeys) {
+    const match = bestMatch(key, missingKeys, maxDistance);
+    if (match) {
+      proposals.set(key, match);
+      claims.set(match, (claims.get(match) ?? 0) + 1);
+    }
+  }
+
+  const renames = new Map<string, string>();
+  for (const [key, match] of proposals) {
+    if (claims.get(match) === 1) {
+      renames.set(key, match);
+    }
+  }
+  return renames;
+}
+
+/**
+ * Finds the single expected key closest to the actual key, or null if none or tied
+ */
+function bestMatch(key: string, candidates: string[], maxDistance: number): string | null {
+  const canonical = canonicalKey(key);
+
+  // Exact match after case/separator normalization wins outright
+  const exact = candidates.filter((candidate) => canonicalKey(candidate) === canonical);
+  if (exact.length > 0) return exact.length === 1 ? exact[0]! : null;
+
+  if (maxDistance <= 0) return null;
+
+  let best: string[] = [];
+  let bestDistance = maxDistance + 1;
+  for (const candidate of candidates) {
+    const distance = editDistance(canonical, canonicalKey(candidate));
+    if (distance < bestDistance) {
+      best = [candidate];
+      bestDistance = distance;
+    } else if (distance === bestDistance) {
+      best.push(candidate);
+    }
+  }
+  return best.length === 1 ? best[0]! : null;
+}
+
+/**
+ * Normalizes a key so camelCase, snake_case, kebab-case and capitalization compare equal
+ */
+function canonicalKey(key: string): string {
+  return key.toLowerCase().replace(/[\s_\-.]+/g, '');
+}
+
+/**
+ * Levenshtein distance between two strings
+ */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost);
+    }
+    previous = current;
+  }
+
+  return previous[b.length]!;
+}
@@ -0,0 +1,137 @@
+import type { TextEdit } from './core';
+import { applyEdits, findStringEnd } from './scanner';
+import type { SpecialLiteral, SpecialValues } from './types';
+
+/**
+ * Text edit made while normalizing literals
+ * - constant: bare literal rewritten (tru, None, NaN, ...), from the preceding `:`,
+ *   `[` or `,` through the literal
+ * - single-quote: single-quoted string rewritten with double quotes
+ */
+export interface LiteralEdit extends TextEdit {
+  kind: 'constant' | 'single-quote';
+}
+
+const SPECIAL_LITERALS: readonly string[] = ['NaN', 'Infinity', '-Infinity', 'undefined'];
+
+const WORD = /-?[\p{L}_$][\p{L}\p{N}_$]*/uy;
+
+/**
+ * Rewrites bare literals and single-quoted strings into JSON
+ * The text is walked token by token, so string contents are never touched and
+ * only literals in value position (after `:` in objects, after `[` or `,` in
+ * arrays) are rewritten; bare keys stay as they are. Single-quoted strings are
+ * converted in key and value position.
+ * - Partial constants: tru, fals, nul
+ * - Null aliases: none, None (Python), nil
+ * - Case-insensitive constants: TRUE, False (Python), NULL
+ * - NaN, Infinity, -Infinity, undefined: mapped through `specialValues` (default null)
+ */
+export function normalizeLiterals(
+  text: string,
+  edits?: LiteralEdit[],
+  specialValues?: SpecialValues
+): string {
+  const stack: string[] = [];
+  const found: LiteralEdit[] = [];
+  let expectKey = false;
+  let expectValue = false;
+  let separator = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    const top = stack[stack.length - 1];
+
+    if (/\s/.test(char)) continue;
+
+    if (char === '"') {
+      const end = findStringEnd(text, i);
+      i = end === -1 ? text.length : end;
+      expectKey = expectValue = false;
+    } else if (char === "'" && (expectKey || expectValue) && findStringEnd(text, i, true) !== -1) {
+      const end = findStringEnd(text, i, true);
+      const before = text.slice(i, end + 1);
+      found.push({ kind: 'single-quote', offset: i, before, after: toDoubleQuoted(before) });
+      i = end;
+      expectKey = expectValue = false;
+    } else if (char === '{' || char === '[') {
+      stack.push(char);
+      expectKey = char === '{';
+      expectValue = char === '[';
+      separator = i;
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      expectKey = expectValue = false;
+    } else if (char === ',' && top) {
+      expectKey = top === '{';
+      expectValue = top === '[';
+      separator = i;
+    } else if (char === ':' && top === '{') {
+      expectKey = false;
+      expectValue = true;
+      separator = i;
+    } else {
+      WORD.lastIndex = i;
+      const word = WORD.exec(text)?.[0];
+      if (word) {
+        const literal = expectValue ? normalizeLiteral(word, specialValues) : null;
+        if (literal !== null && literal !== word) {
+          const end = i + word.length;
+          const after = text.slice(separator, i) + literal;
+          found.push({
+            kind: 'constant',
+            offset: separator,
+            before: text.slice(separator, end),
+            after,
+          });
+        }
+        i += word.length - 1;
+      }
+      expectKey = expectValue = false;
+    }
+  }
+
+  if (found.length === 0) return text;
+  edits?.push(...found);
+  return applyEdits(text, found);
+}
+
+/**
+ * JSON value a special literal maps to, null unless `specialValues` says otherwise
+ */
+export function resolveSpecialValue(
+  literal: SpecialLiteral,
+  specialValues?: SpecialValues
+): string | number | boolean | null {
+  return specialValues?.[literal] ?? null;
+}
+
+/**
+ * Maps a bare word to its JSON literal, or null when it is not a known literal
+ * Partial constants and aliases are matched case-sensitively, full constants in any case
+ */
+function normalizeLiteral(word: string, specialValues?: SpecialValues): string | null {
+  if (word === 'tru') return 'true';
+  if (word === 'fals') return 'false';
+  if (word === 'nul' || word === 'none' || word === 'None' || word === 'nil') return 'null';
+
+  const lower = word.toLowerCase();
+  if (lower === 'true' || lower === 'false' || lower === 'null') return lower;
+
+  if (SPECIAL_LITERALS.includes(word)) {
+    return JSON.stringify(resolveSpecialValue(word as SpecialLiteral, specialValues));
+  }
+  return null;
+}
+
+/**
+ * Rewrites a single-quoted string literal with double quotes
+ * `\'` needs no escape in JSON, while a bare `"` does.
+ */
+function toDoubleQuoted(literal: string): string {
+  const body = literal.slice(1, -1).replace(/\\'|\\.|"/g, (match) => {
+    if (match === "\\'") return "'";
+    return match === '"' ? '\\"' : match;
+  });
+  return `"${body}"`;
+}
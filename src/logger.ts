@@ -0,0 +1,127 @@
+// The package targets plain ES2020 without DOM or Node typings
+declare const console: {
+  log(...args: unknown[]): void;
+  warn(...args: unknown[]): void;
+};
+
+/**
+ * Log levels, from most to least verbose
+ * - silent: disables logging entirely
+ */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'silent';
+
+/**
+ * Names of the events emitted by the parse pipeline
+ */
+export type LogEventName =
+  | 'repair.constant'
+  | 'repair.candidate-rejected'
+  | 'repair.quote'
+  | 'repair.split'
+  | 'repair.truncated'
+  | 'repair.decoded'
+  | 'repair.jsonrepair'
+  | 'repair.fallback'
+  | 'repair.strategy'
+  | 'candidate.selected'
+  | 'root.renamed'
+  | 'root.wrapped'
+  | 'root.unfixed'
+  | 'key.renamed'
+  | 'coerce.applied'
+  | 'retry.failed';
+
+/**
+ * Structured payload passed to loggers
+ */
+export interface LogEvent {
+  level: Exclude<LogLevel, 'silent'>;
+  event: LogEventName;
+  message: string;
+  details?: Record<string, unknown>;
+}
+
+/**
+ * Receives every pipeline event at or above the configured level
+ */
+export type Logger = (event: LogEvent) => void;
+
+/**
+ * Logging settings, accepted by configure() and ParseOptions
+ */
+export interface LoggingOptions {
+  /**
+   * Receives pipeline events
+   * @default console logger
+   */
+  logger?: Logger;
+
+  /**
+   * Minimum level to log
+   * @default 'warn'
+   */
+  logLevel?: LogLevel;
+}
+
+/**
+ * Emits an event through the resolved logger if its level is enabled
+ */
+export type LogFn = (
+  level: LogEvent['level'],
+  event: LogEventName,
+  message: string,
+  details?: Record<string, unknown>
+) => void;
+
+const LEVEL_ORDER: Record<LogLevel, number> = { debug: 0, info: 1, warn: 2, silent: 3 };
+
+const LEVEL_PREFIX: Record<LogEvent['level'], string> = { debug: '🔍', info: '✅', warn: '❌' };
+
+/**
+ * Default logger writing one line per event to the console
+ */
+export const consoleLogger: Logger = (event) => {
+  const line = `${LEVEL_PREFIX[event.level]} json-llm-repair: ${event.message}`;
+  if (event.level === 'warn') {
+    console.warn(line);
+  } else {
+    console.log(line);
+  }
+};
+
+let globalConfig: Required<LoggingOptions> = { logger: consoleLogger, logLevel: 'warn' };
+
+/**
+ * Sets package-wide logging defaults, overridable per call through ParseOptions
+ *
+ * @example
+ * ```ts
+ * configure({ logLevel: 'silent' });
+ * configure({ logger: (e) => pino[e.level]({ event: e.event, ...e.details }, e.message) });
+ * ```
+ */
+export function configure(options: LoggingOptions): void {
+  globalConfig = { ...globalConfig, ...stripUndefined(options) };
+}
+
+/**
+ * Resolves the log function for one call from per-call and global settings
+ */
+export function createLog(options?: LoggingOptions): LogFn {
+  const logger = options?.logger ?? globalConfig.logger;
+  const threshold = LEVEL_ORDER[options?.logLevel ?? globalConfig.logLevel];
+
+  return (level, event, message, details) => {
+    if (LEVEL_ORDER[level] < threshold) return;
+    logger({ level, event, message, ...(details && { details }) });
+  };
+}
+
+/**
+ * Removes undefined entries so they do not override defaults
+ */
+function stripUndefined<T extends object>(options: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(options).filter(([, value]) => value !== undefined)
+  ) as Partial<T>;
+}
@@ -0,0 +1,46 @@
+/**
+ * Start and end offsets of a part of the text, end exclusive
+ */
+export type TextRange = [start: number, end: number];
+
+/**
+ * Replaces every hidden character with a space, keeping newlines
+ * Offsets into the result match offsets into the original text.
+ */
+export function applyMask(text: string, visible: boolean[]): string {
+  let masked = '';
+  for (let i = 0; i < text.length; i++) {
+    masked += visible[i] || text[i] === '\n' ? text[i] : ' ';
+  }
+  return masked;
+}
+
+/**
+ * Hides the given ranges of the text
+ */
+export function hideRanges(text: string, ranges: TextRange[]): string {
+  if (ranges.length === 0) return text;
+  const visible = new Array<boolean>(text.length).fill(true);
+  for (const [start, end] of ranges) {
+    visible.fill(false, start, end);
+  }
+  return applyMask(text, visible);
+}
+
+/**
+ * Hides everything outside the given ranges of the text
+ */
+export function keepRanges(text: string, ranges: TextRange[]): string {
+  const visible = new Array<boolean>(text.length).fill(false);
+  for (const [start, end] of ranges) {
+    visible.fill(true, start, end);
+  }
+  return applyMask(text, visible);
+}
+
+/**
+ * Whether the offset falls inside one of the ranges
+ */
+export function isInRanges(offset: number, ranges: TextRange[]): boolean {
+  return ranges.some(([start, end]) => offset >= start && offset < end);
+}
@@ -0,0 +1,149 @@
+import type { JsonCandidate, RootKind } from './core';
+import type { SchemaNode } from './schema';
+import type { RepairKind } from './types';
+
+/**
+ * Stages of the repair pipeline, run in this order:
+ * - preprocess: rewrites the extracted JSON text
+ * - extract: finds JSON candidates in the text; each extractor is a fallback for
+ *   the previous one, used when none of its candidates parse
+ * - parse: turns one candidate into a value; the first parser that succeeds wins
+ * - postprocess: transforms the parsed value
+ */
+export type RepairStage = 'preprocess' | 'extract' | 'parse' | 'postprocess';
+
+/**
+ * Repair made by a strategy, recorded in the parse report when it takes effect
+ * Offsets are relative to the text the strategy received. In the preprocess stage,
+ * recording every edit keeps the offsets of later repairs accurate.
+ */
+export interface StrategyRepair {
+  /**
+   * @default 'custom'
+   */
+  kind?: RepairKind;
+  offset?: number;
+  path?: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * What a strategy knows about the current call
+ */
+export interface StrategyContext {
+  schema?: SchemaNode;
+  rootKind?: RootKind;
+  record(repair: StrategyRepair): void;
+}
+
+interface StrategyBase {
+  /**
+   * Name used to enable, disable and order the strategy in the `strategies` option
+   */
+  name: string;
+}
+
+export interface TextPreprocessor extends StrategyBase {
+  stage: 'preprocess';
+  preprocess(text: string, context: StrategyContext): string;
+}
+
+export interface CandidateExtractor extends StrategyBase {
+  stage: 'extract';
+  extract(text: string, context: StrategyContext): JsonCandidate[];
+}
+
+/**
+ * Parses one candidate, throwing when it cannot
+ */
+export interface CandidateParser extends StrategyBase {
+  stage: 'parse';
+  parse(text: string, context: StrategyContext): unknown;
+}
+
+export interface ValuePostprocessor extends StrategyBase {
+  stage: 'postprocess';
+  postprocess(value: unknown, context: StrategyContext): unknown;
+}
+
+/**
+ * A named step of the repair pipeline
+ */
+export type RepairStrategy =
+  | TextPreprocessor
+  | CandidateExtractor
+  | CandidateParser
+  | ValuePostprocessor;
+
+/**
+ * Built-in strategies, in the order they run by default
+ */
+export const DEFAULT_STRATEGIES: readonly string[] = [
+  'constants',
+  'split-records',
+  'candidate',
+  'first-complete',
+  'json',
+  'dialect',
+  'quotes',
+  'jsonrepair',
+  'decode-strings',
+];
+
+/**
+ * Strategies of one call, grouped by stage in run order
+ */
+export interface RepairPipeline {
+  preprocess: TextPreprocessor[];
+  extract: CandidateExtractor[];
+  parse: CandidateParser[];
+  postprocess: ValuePostprocessor[];
+}
+
+const registered: RepairStrategy[] = [];
+
+/**
+ * Registers a strategy that runs by default, after the built-ins of its stage
+ * A strategy with the same name is replaced, including a built-in one. Once
+ * registered, the strategy can also be listed by name in the `strategies` option.
+ */
+export function registerRepairStrategy(strategy: RepairStrategy): void {
+  const index = registered.findIndex((existing) => existing.name === strategy.name);
+  if (index === -1) {
+    registered.push(strategy);
+  } else {
+    registered[index] = strategy;
+  }
+}
+
+/**
+ * Resolves the `strategies` option into the pipeline of one call
+ * Without the option, the built-ins run in their default order followed by the
+ * registered strategies. Names refer to registered strategies first, then built-ins.
+ */
+export function resolvePipeline(
+  strategies: readonly (string | RepairStrategy)[] | undefined,
+  builtIns: RepairStrategy[]
+): RepairPipeline {
+  const byName = (name: string): RepairStrategy => {
+    const strategy =
+      registered.find((s) => s.name === name) ?? builtIns.find((s) => s.name === name);
+    if (!strategy) {
+      throw new TypeError(`Unknown repair strategy "${name}"`);
+    }
+    return strategy;
+  };
+
+  const defaults = [
+    ...DEFAULT_STRATEGIES,
+    ...registered.map((s) => s.name).filter((name) => !DEFAULT_STRATEGIES.includes(name)),
+  ];
+
+  const pipeline: RepairPipeline = { preprocess: [], extract: [], parse: [], postprocess: [] };
+  for (const entry of strategies ?? defaults) {
+    const strategy = typeof entry === 'string' ? byName(entry) : entry;
+    (pipeline[strategy.stage] as RepairStrategy[]).push(strategy);
+  }
+  return pipeline;
+}
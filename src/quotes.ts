@@ -0,0 +1,107 @@
+import type { TextEdit } from './core';
+import { applyEdits, findStringEnd } from './scanner';
+
+/**
+ * Escapes quotes that sit inside string values instead of closing them
+ * A quote only closes a string when the structure that follows makes sense:
+ * - keys: the next token is `:`
+ * - values: the next token is the closer of the current container, the end of
+ *   the text, the next key, or a `,` followed by another key (objects) or value
+ *   (arrays)
+ * Only ASCII punctuation drives the decision, so accented text, CJK and emoji
+ * around the quote never change it. When a string would be left unterminated,
+ * the text is returned unchanged and jsonrepair gets the original.
+ */
+export function repairUnescapedQuotes(text: string, edits?: TextEdit[]): string {
+  const stack: string[] = [];
+  const found: TextEdit[] = [];
+  let expectKey = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (char === '{' || char === '[') {
+      stack.push(char);
+      expectKey = char === '{';
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+    } else if (char === ',') {
+      expectKey = stack[stack.length - 1] === '{';
+    } else if (char === ':') {
+      expectKey = false;
+    } else if (char === '"') {
+      const isKey = expectKey && stack[stack.length - 1] === '{';
+      let end = findStringEnd(text, i);
+      while (end !== -1 && !closesString(text, end + 1, stack, isKey)) {
+        found.push({ offset: end, before: '"', after: '\\"' });
+        end = findStringEnd(text, end);
+      }
+      if (end === -1) return text;
+      i = end;
+    }
+  }
+
+  if (found.length === 0) return text;
+  edits?.push(...found);
+  return applyEdits(text, found);
+}
+
+/**
+ * Decides whether the quote just before `after` closes the current string
+ */
+function closesString(text: string, after: number, stack: string[], isKey: boolean): boolean {
+  const next = nextNonSpace(text, after);
+  if (next === -1) return true;
+
+  const char = text[next]!;
+  const container = stack[stack.length - 1];
+
+  if (isKey) return char === ':';
+
+  if (char === '}' || char === ']') {
+    return (container === '{' ? '}' : ']') === char;
+  }
+
+  // A key right after the string means the comma is missing
+  if (container === '{' && char === '"' && isKeyAt(text, next)) return true;
+
+  if (char !== ',') return false;
+
+  const following = nextNonSpace(text, next + 1);
+  if (following === -1) return true;
+
+  if (container === '{') {
+    return '{}['.includes(text[following]!) || isKeyAt(text, following);
+  }
+  return text[following] === ']' || isValueStartAt(text, following);
+}
+
+/**
+ * Whether a key followed by `:` starts at the index, quoted or bare
+ */
+function isKeyAt(text: string, index: number): boolean {
+  if (text[index] !== '"') {
+    return /^[\p{L}_$][\p{L}\p{N}_$]*\s*:/u.test(text.slice(index, index + 100));
+  }
+
+  const end = findStringEnd(text, index, true);
+  const next = end === -1 ? -1 : nextNonSpace(text, end + 1);
+  return next !== -1 && text[next] === ':';
+}
+
+/**
+ * Whether a JSON value starts at the index
+ */
+function isValueStartAt(text: string, index: number): boolean {
+  return /^(?:["{[\-\d]|(?:true|false|null)(?![\p{L}\p{N}_]))/u.test(text.slice(index, index + 6));
+}
+
+/**
+ * Index of the next non-whitespace character (Unicode whitespace included), or -1
+ */
+function nextNonSpace(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (!/\s/.test(text[i]!)) return i;
+  }
+  return -1;
+}
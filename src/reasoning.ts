@@ -0,0 +1,162 @@
+import { hideRanges, isInRanges, keepRanges, TextRange } from './mask';
+import { findStringRanges, ScanSyntax } from './scanner';
+import type { ReasoningOptions } from './types';
+
+/**
+ * Reasoning wrappers emitted by reasoning models (DeepSeek-R1, Qwen QwQ, ...)
+ */
+export const DEFAULT_REASONING_TAGS = [
+  'think',
+  'thinking',
+  'reasoning',
+  'reflection',
+  'scratchpad',
+];
+
+/**
+ * Reasoning settings with defaults applied
+ */
+export interface ResolvedReasoningOptions {
+  tags: Array<string | RegExp>;
+  answerTag?: string;
+}
+
+/**
+ * Resolves the `stripReasoning` option, or null when stripping is disabled
+ */
+export function resolveReasoningOptions(
+  stripReasoning: boolean | ReasoningOptions | undefined
+): ResolvedReasoningOptions | null {
+  if (stripReasoning === false) return null;
+  const options = stripReasoning === true || !stripReasoning ? {} : stripReasoning;
+  return {
+    tags: [...DEFAULT_REASONING_TAGS, ...(options.tags ?? [])],
+    answerTag: options.answerTag,
+  };
+}
+
+/**
+ * Blanks out reasoning blocks, then everything outside the answer tag if one is set
+ * - A block left open (truncated output) runs to the end of the text
+ * - A closing tag without an opener hides everything before it (the chat template
+ *   sometimes sends the opening <think> as part of the prompt)
+ * - Without an answer tag in the text, the whole remaining text is kept
+ * - Tags inside the string values of a JSON document are content, not markup
+ * Blanked characters become spaces, so offsets stay valid.
+ */
+export function stripReasoning(
+  text: string,
+  options: ResolvedReasoningOptions | null,
+  syntax?: ScanSyntax
+): string {
+  if (!options) return text;
+
+  const strings = findStringRanges(text, syntax);
+  const hidden: TextRange[] = [];
+  for (const tag of options.tags) {
+    const ranges =
+      typeof tag === 'string'
+        ? findTagBlocks(text, tag, strings).map((block): TextRange => [block.start, block.end])
+        : findPatternRanges(text, tag, strings);
+    hidden.push(...ranges);
+  }
+  const stripped = hideRanges(text, hidden);
+
+  if (!options.answerTag) return stripped;
+
+  const answers = findTagBlocks(stripped, options.answerTag, strings).filter(
+    (block) => !block.orphan
+  );
+  if (answers.length === 0) return stripped;
+  return keepRanges(
+    stripped,
+    answers.map((block): TextRange => [block.contentStart, block.contentEnd])
+  );
+}
+
+/**
+ * An XML-like tag block with the offsets of its parts
+ */
+interface TagBlock {
+  start: number;
+  contentStart: number;
+  contentEnd: number;
+  end: number;
+
+  /**
+   * Closing tag without an opener, the block starts where the previous one ended
+   */
+  orphan: boolean;
+}
+
+/**
+ * Finds the outermost blocks of a tag, case-insensitively, allowing attributes
+ * Tags starting inside one of the `strings` ranges are skipped.
+ */
+function findTagBlocks(text: string, tag: string, strings: TextRange[]): TagBlock[] {
+  const pattern = new RegExp(`<(/?)${escapeRegExp(tag)}(?:\\s[^>]*)?>`, 'gi');
+  const blocks: TagBlock[] = [];
+  let depth = 0;
+  let start = 0;
+  let contentStart = 0;
+  let previousEnd = 0;
+
+  for (const match of text.matchAll(pattern)) {
+    const index = match.index!;
+    if (isInRanges(index, strings)) continue;
+    const isCloser = match[1] === '/';
+
+    if (!isCloser) {
+      if (depth === 0) {
+        start = index;
+        contentStart = index + match[0].length;
+      }
+      depth++;
+    } else if (depth > 0) {
+      depth--;
+      if (depth === 0) {
+        previousEnd = index + match[0].length;
+        blocks.push({ start, contentStart, contentEnd: index, end: previousEnd, orphan: false });
+      }
+    } else {
+      const end = index + match[0].length;
+      blocks.push({
+        start: previousEnd,
+        contentStart: previousEnd,
+        contentEnd: index,
+        end,
+        orphan: true,
+      });
+      previousEnd = end;
+    }
+  }
+
+  if (depth > 0) {
+    blocks.push({ start, contentStart, contentEnd: text.length, end: text.length, orphan: false });
+  }
+
+  return blocks;
+}
+
+/**
+ * Finds every match of a user-supplied pattern, except those starting inside `strings`
+ */
+function findPatternRanges(text: string, pattern: RegExp, strings: TextRange[]): TextRange[] {
+  const global = pattern.global ? pattern : new RegExp(pattern.source, pattern.flags + 'g');
+  const ranges: TextRange[] = [];
+
+  for (const match of text.matchAll(global)) {
+    if (match[0].length > 0 && !isInRanges(match.index!, strings)) {
+      ranges.push([match.index!, match.index! + match[0].length]);
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Escapes a tag name for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,129 @@
+import type { TextEdit } from './core';
+import { hasOwnKey, SchemaNode } from './schema';
+import { applyEdits, findStringEnd } from './scanner';
+
+/**
+ * Container being scanned, with what is known about its records
+ */
+interface Frame {
+  kind: '{' | '[';
+
+  /**
+   * Schema of the container, undefined when unknown
+   */
+  schema?: SchemaNode;
+
+  /**
+   * Whether the container is an object directly inside an array
+   */
+  isElement: boolean;
+
+  /**
+   * Keys of the record being read, reset at every split
+   */
+  keys: string[];
+
+  key?: string;
+  expectKey: boolean;
+
+  /**
+   * Offset of the last comma at this level, or -1
+   */
+  comma: number;
+}
+
+/**
+ * Splits array elements that hold several records merged into one object
+ * `[{"id": 1, "name": "A", "id": 2, "name": "B"}]` becomes
+ * `[{"id": 1, "name": "A"},{"id": 2, "name": "B"}]`.
+ * A record boundary is a repeat of the element's first key. With a schema, the
+ * array item must be an object schema that declares that key; without one, or
+ * when the array is not covered by the schema, the repeat alone decides.
+ */
+export function splitMergedRecords(text: string, schema?: SchemaNode, edits?: TextEdit[]): string {
+  const stack: Frame[] = [];
+  const found: TextEdit[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    const frame = stack[stack.length - 1];
+
+    if (char === '"') {
+      const close = findStringEnd(text, i);
+      const end = close === -1 ? text.length : close;
+      if (frame?.kind === '{' && frame.expectKey) {
+        const key = text.slice(i + 1, end);
+        if (isRecordBoundary(frame, key)) {
+          found.push({ offset: frame.comma, before: ',', after: '},{' });
+          frame.keys = [];
+        }
+        frame.keys.push(key);
+        frame.key = key;
+        frame.expectKey = false;
+      }
+      i = end;
+    } else if (char === '{' || char === '[') {
+      stack.push({
+        kind: char,
+        schema: frame ? childSchema(frame) : rootSchema(schema, char),
+        isElement: char === '{' && frame?.kind === '[',
+        keys: [],
+        expectKey: char === '{',
+        comma: -1,
+      });
+    } else if (char === '}' || char === ']') {
+      if (frame && (frame.kind === '{' ? '}' : ']') === char) stack.pop();
+    } else if (char === ',' && frame) {
+      frame.comma = i;
+      frame.expectKey = frame.kind === '{';
+    } else if (char === ':' && frame) {
+      frame.expectKey = false;
+    }
+  }
+
+  if (found.length === 0) return text;
+  edits?.push(...found);
+  return applyEdits(text, found);
+}
+
+/**
+ * Whether the key starts a new record inside an array element
+ */
+function isRecordBoundary(frame: Frame, key: string): boolean {
+  if (!frame.isElement || frame.comma === -1 || frame.keys[0] !== key) return false;
+  if (!frame.schema) return true;
+
+  const { shape } = frame.schema;
+  return shape !== undefined && hasOwnKey(shape, key);
+}
+
+/**
+ * Schema of a container opened inside the frame
+ */
+function childSchema(frame: Frame): SchemaNode | undefined {
+  const { schema } = frame;
+  if (!schema) return undefined;
+
+  if (frame.kind === '[') {
+    return schema.kind === 'array' ? schema.items : undefined;
+  }
+
+  const { key } = frame;
+  return key !== undefined && schema.shape && hasOwnKey(schema.shape, key)
+    ? schema.shape[key]
+    : undefined;
+}
+
+/**
+ * Schema of the root container, looking through a single root key for root arrays
+ * (the root key is added back later by the root fixes)
+ */
+function rootSchema(schema: SchemaNode | undefined, opener: '{' | '['): SchemaNode | undefined {
+  if (!schema) return undefined;
+
+  if (opener === '[' && schema.kind !== 'array') {
+    const fields = Object.values(schema.shape ?? {});
+    return fields.length === 1 ? fields[0] : undefined;
+  }
+  return schema;
+}
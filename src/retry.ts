@@ -0,0 +1,26 @@
+import { SchemaMismatchError } from './errors';
+import { formatPath } from './schema';
+import type { RetryFailure } from './types';
+
+/**
+ * Builds the default correction prompt sent to the model after a failed attempt
+ * Lists the Zod issues for schema mismatches, or the parse error otherwise,
+ * followed by the output that failed.
+ */
+export function buildCorrectionPrompt(failure: RetryFailure): string {
+  const { error, output } = failure;
+
+  const problem =
+    error instanceof SchemaMismatchError
+      ? 'It does not match the expected schema:\n' +
+        error.issues.map((issue) => `- ${formatPath(issue.path)}: ${issue.message}`).join('\n')
+      : `It could not be parsed: ${error.message}`;
+
+  return [
+    'Your previous response was not valid JSON for this task.',
+    problem,
+    'Previous response:',
+    output,
+    'Reply with only the corrected JSON, without explanations or code fences.',
+  ].join('\n\n');
+}
@@ -0,0 +1,186 @@
+import type { TextEdit } from './core';
+import type { TextRange } from './mask';
+
+export const CLOSERS: Record<string, string> = { '{': '}', '[': ']' };
+
+/**
+ * Result of scanning a JSON container from its opener
+ */
+export interface ContainerScan {
+  /**
+   * Index just past the closer of the container, or -1 when the text ends first
+   */
+  end: number;
+
+  /**
+   * Closers still missing when the text ends, innermost last
+   */
+  unclosed: string[];
+
+  /**
+   * Whether the text ends inside a string, and right after a backslash in it
+   */
+  inString: boolean;
+  danglingEscape: boolean;
+
+  /**
+   * Quote that opened the string the text ends in, empty outside strings
+   */
+  quote: string;
+}
+
+/**
+ * String and comment syntax of the text being scanned
+ */
+export interface ScanSyntax {
+  /**
+   * Characters that open and close a string
+   */
+  quotes: string;
+  lineComments: string[];
+  blockComments: boolean;
+}
+
+export const JSON_SYNTAX: ScanSyntax = { quotes: '"', lineComments: [], blockComments: false };
+
+/**
+ * How a container is scanned
+ */
+export interface ScanOptions {
+  /**
+   * With this off, quotes are treated like any other character, which tolerates
+   * stray quotes
+   * @default true
+   */
+  honorStrings?: boolean;
+
+  /**
+   * Collects the ranges of the string literals met, quotes included
+   */
+  strings?: TextRange[];
+
+  /**
+   * Strings and comments to skip, JSON by default
+   */
+  syntax?: ScanSyntax;
+}
+
+/**
+ * Scans the container opened at `start` up to its matching closer
+ * Brackets inside string literals and comments are skipped, honoring escapes.
+ * A closer pops every container back to the one it matches, so `{"a": [1}` ends
+ * at the brace, and a closer that matches nothing open is ignored.
+ */
+export function scanContainer(
+  text: string,
+  start: number,
+  options: ScanOptions = {}
+): ContainerScan {
+  const { honorStrings = true, strings, syntax = JSON_SYNTAX } = options;
+  const scan: ContainerScan = {
+    end: -1,
+    unclosed: [],
+    inString: false,
+    danglingEscape: false,
+    quote: '',
+  };
+  if (!CLOSERS[text[start]!]) return scan;
+
+  let stringStart = -1;
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i]!;
+
+    if (scan.inString) {
+      if (char === '\\') {
+        if (i === text.length - 1) scan.danglingEscape = true;
+        i++;
+      } else if (char === scan.quote) {
+        scan.inString = false;
+        scan.quote = '';
+        strings?.push([stringStart, i + 1]);
+      }
+      continue;
+    }
+
+    if (syntax.quotes.includes(char) && honorStrings) {
+      scan.inString = true;
+      stringStart = i;
+      scan.quote = char;
+    } else if (syntax.lineComments.some((opener) => text.startsWith(opener, i))) {
+      const lineEnd = text.indexOf('\n', i);
+      i = lineEnd === -1 ? text.length : lineEnd;
+    } else if (syntax.blockComments && text.startsWith('/*', i)) {
+      const commentEnd = text.indexOf('*/', i + 2);
+      i = commentEnd === -1 ? text.length : commentEnd + 1;
+    } else if (char === '{' || char === '[') {
+      scan.unclosed.push(CLOSERS[char]!);
+    } else if (char === '}' || char === ']') {
+      const match = scan.unclosed.lastIndexOf(char);
+      if (match === -1) continue;
+
+      scan.unclosed.length = match;
+      if (match === 0) {
+        scan.end = i + 1;
+        return scan;
+      }
+    }
+  }
+
+  return scan;
+}
+
+/**
+ * Ranges of the string literals inside balanced containers, quotes included
+ * Quotes in prose, or in a container that never closes, are not taken as string
+ * delimiters, since the extent of such text is unknown.
+ */
+export function findStringRanges(text: string, syntax?: ScanSyntax): TextRange[] {
+  const ranges: TextRange[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    if (!CLOSERS[text[i]!]) continue;
+
+    const strings: TextRange[] = [];
+    const { end } = scanContainer(text, i, { strings, syntax });
+    if (end !== -1) {
+      ranges.push(...strings);
+      i = end - 1;
+    }
+  }
+
+  return ranges;
+}
+
+/**
+ * Index of the quote closing the string opened at `start`, or -1 when the text ends first
+ * Escaped characters are skipped. With `singleLine`, a string still open at a line
+ * break counts as unterminated.
+ */
+export function findStringEnd(text: string, start: number, singleLine = false): number {
+  const quote = text[start];
+  for (let i = start + 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\') {
+      i++;
+    } else if (char === quote) {
+      return i;
+    } else if (singleLine && char === '\n') {
+      return -1;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Applies edits found in one pass over the text, in offset order
+ */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  let result = '';
+  let last = 0;
+  for (const edit of edits) {
+    result += text.slice(last, edit.offset) + edit.after;
+    last = edit.offset + edit.before.length;
+  }
+  return result + text.slice(last);
+}
@@ -0,0 +1,154 @@
+import type { SchemaIssue } from './types';
+
+/**
+ * Schema description shared by every schema-guided step
+ * Schema adapters turn Zod, Standard Schema and JSON Schema objects into this form,
+ * so root fixes, key renaming, coercion and validation do not depend on the
+ * schema library
+ */
+export interface SchemaNode {
+  kind: SchemaKind;
+
+  /**
+   * Whether the value may be missing (optional, nullable or with a default)
+   */
+  optional: boolean;
+  defaultValue?: () => unknown;
+
+  /**
+   * Fields of an object
+   */
+  shape?: Record<string, SchemaNode>;
+
+  /**
+   * Whether an object rejects unknown keys
+   */
+  strict?: boolean;
+
+  /**
+   * Element schema of an array, value schema of a record
+   */
+  items?: SchemaNode;
+
+  /**
+   * Allowed values of an enum
+   */
+  values?: unknown[];
+
+  /**
+   * Options of a union
+   */
+  options?: SchemaNode[];
+
+  /**
+   * Validates a value, returning the (possibly transformed) data or the issues
+   */
+  safeParse(value: unknown): SchemaResult;
+}
+
+export type SchemaKind =
+  | 'object'
+  | 'array'
+  | 'record'
+  | 'number'
+  | 'boolean'
+  | 'enum'
+  | 'union'
+  | 'other';
+
+export type SchemaResult =
+  | { success: true; data: unknown }
+  | { success: false; issues: SchemaIssue[] };
+
+/**
+ * Accepts any value; stands in for children an adapter does not describe
+ */
+export const ANY_SCHEMA: SchemaNode = {
+  kind: 'other',
+  optional: true,
+  safeParse: (data) => ({ success: true, data }),
+};
+
+/**
+ * Turns one kind of schema into a SchemaNode
+ * Register custom adapters with registerSchemaAdapter
+ */
+export interface SchemaAdapter {
+  name: string;
+
+  /**
+   * Whether the adapter handles the schema
+   */
+  matches(schema: unknown): boolean;
+
+  describe(schema: unknown): SchemaNode;
+}
+
+/**
+ * Defines a property computed on first access, so recursive schemas stay finite
+ */
+export function defineLazy<K extends keyof SchemaNode>(
+  node: SchemaNode,
+  key: K,
+  compute: () => SchemaNode[K]
+): void {
+  Object.defineProperty(node, key, {
+    configurable: true,
+    enumerable: true,
+    get() {
+      const value = compute();
+      Object.defineProperty(node, key, { value, enumerable: true });
+      return value;
+    },
+  });
+}
+
+/**
+ * Maps the values of a record
+ */
+export function mapValues<T, U>(record: Record<string, T>, fn: (value: T) => U): Record<string, U> {
+  return Object.fromEntries(Object.entries(record).map(([key, value]) => [key, fn(value)]));
+}
+
+/**
+ * Whether the record has the key as an own property; `in` would also match
+ * inherited names such as "constructor" or "toString"
+ */
+export function hasOwnKey(record: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(record, key);
+}
+
+/**
+ * Sets an own property; assigning would send a "__proto__" key through the
+ * prototype setter
+ */
+export function setOwnProperty(record: Record<string, unknown>, key: string, value: unknown): void {
+  Object.defineProperty(record, key, {
+    value,
+    enumerable: true,
+    writable: true,
+    configurable: true,
+  });
+}
+
+/**
+ * Checks whether a value is a plain JSON object (not an array or null)
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Appends an object key or array index to a JSON path
+ */
+export function joinPath(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return /^[A-Za-z_$][\w$]*$/.test(key) ? `${path}.${key}` : `${path}[${JSON.stringify(key)}]`;
+}
+
+/**
+ * Formats path segments as a JSON path ($.items[1].name)
+ */
+export function formatPath(segments: (string | number)[]): string {
+  return segments.reduce<string>((path, segment) => joinPath(path, segment), '$');
+}
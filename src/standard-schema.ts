@@ -0,0 +1,183 @@
+import { describeJsonSchema } from './json-schema';
+import { defineLazy, mapValues, SchemaAdapter, SchemaNode, SchemaResult } from './schema';
+import type {
+  SchemaIssue,
+  StandardSchemaIssue,
+  StandardSchemaResult,
+  StandardSchemaV1,
+} from './types';
+
+/**
+ * Standard Schema adapter (https://standardschema.dev)
+ * Validation always goes through `~standard.validate`. The spec does not describe
+ * structure, so the shape is read from Valibot's schema objects or from ArkType's
+ * `toJsonSchema()` when available; other validators only get validation.
+ */
+export const standardSchemaAdapter: SchemaAdapter = {
+  name: 'standard-schema',
+  matches: (schema) =>
+    (typeof schema === 'object' || typeof schema === 'function') &&
+    schema !== null &&
+    typeof (schema as StandardSchemaV1)['~standard']?.validate === 'function',
+  describe: (schema) => describeStandardSchema(schema as StandardSchemaV1),
+};
+
+/**
+ * Valibot schema properties read by the adapter; each is only set for the `type`
+ * that has it
+ */
+interface ValibotSchema extends StandardSchemaV1 {
+  type: string;
+  default?: unknown;
+  wrapped: ValibotSchema;
+  getter: (input: unknown) => ValibotSchema;
+  entries: Record<string, ValibotSchema>;
+  item: ValibotSchema;
+  value: ValibotSchema;
+  /**
+   * Values of a picklist or enum, schemas of a union or variant
+   */
+  options: unknown[];
+}
+
+function describeStandardSchema(schema: StandardSchemaV1): SchemaNode {
+  if (schema['~standard'].vendor === 'valibot') {
+    return describeValibot(schema as ValibotSchema);
+  }
+
+  const safeParse = (value: unknown) => validateStandard(schema, value);
+  const node: SchemaNode = describeFromJsonSchema(schema) ?? {
+    kind: 'other',
+    optional: false,
+    safeParse,
+  };
+  node.safeParse = safeParse;
+  return node;
+}
+
+/**
+ * Describes a schema through its own JSON Schema export (ArkType's toJsonSchema)
+ */
+function describeFromJsonSchema(schema: StandardSchemaV1): SchemaNode | undefined {
+  const toJsonSchema = (schema as { toJsonSchema?: () => unknown }).toJsonSchema;
+  if (typeof toJsonSchema !== 'function') return undefined;
+
+  try {
+    return describeJsonSchema(toJsonSchema.call(schema) as Record<string, unknown>);
+  } catch {
+    // Types without a JSON Schema equivalent (morphs, predicates) only get validation
+    return undefined;
+  }
+}
+
+/**
+ * Strips Valibot wrappers that do not change the JSON shape
+ */
+function unwrapValibot(schema: ValibotSchema) {
+  let current = schema;
+  let optional = false;
+  let defaultValue: (() => unknown) | undefined;
+
+  for (;;) {
+    switch (current.type) {
+      case 'optional':
+      case 'exact_optional':
+      case 'nullable':
+      case 'nullish':
+      case 'undefinedable': {
+        optional = true;
+        const fallback = current.default;
+        if (fallback !== undefined) {
+          defaultValue ??= () => (typeof fallback === 'function' ? fallback() : fallback);
+        }
+        current = current.wrapped;
+        break;
+      }
+      case 'non_optional':
+      case 'non_nullable':
+      case 'non_nullish':
+        current = current.wrapped;
+        break;
+      case 'lazy':
+        current = current.getter(undefined);
+        break;
+      default:
+        return { schema: current, optional, defaultValue };
+    }
+  }
+}
+
+/**
+ * Describes a Valibot schema from its public properties (entries, item, wrapped, options)
+ */
+function describeValibot(schema: ValibotSchema): SchemaNode {
+  const { schema: inner, optional, defaultValue } = unwrapValibot(schema);
+  const node: SchemaNode = {
+    kind: 'other',
+    optional,
+    defaultValue,
+    safeParse: (value) => validateStandard(schema, value),
+  };
+
+  switch (inner.type) {
+    case 'object':
+    case 'loose_object':
+    case 'strict_object':
+    case 'object_with_rest':
+      node.kind = 'object';
+      node.strict = inner.type === 'strict_object';
+      defineLazy(node, 'shape', () => mapValues(inner.entries, describeValibot));
+      break;
+    case 'array':
+      node.kind = 'array';
+      defineLazy(node, 'items', () => describeValibot(inner.item));
+      break;
+    case 'record':
+      node.kind = 'record';
+      defineLazy(node, 'items', () => describeValibot(inner.value));
+      break;
+    case 'number':
+      node.kind = 'number';
+      break;
+    case 'boolean':
+      node.kind = 'boolean';
+      break;
+    case 'picklist':
+    case 'enum':
+      node.kind = 'enum';
+      node.values = inner.options;
+      break;
+    case 'union':
+    case 'variant':
+      node.kind = 'union';
+      defineLazy(node, 'options', () => (inner.options as ValibotSchema[]).map(describeValibot));
+      break;
+  }
+
+  return node;
+}
+
+/**
+ * Runs the schema's own validation; the pipeline is synchronous, so async schemas
+ * are rejected
+ */
+function validateStandard(schema: StandardSchemaV1, value: unknown): SchemaResult {
+  const result = schema['~standard'].validate(value);
+  if (typeof (result as Promise<unknown>).then === 'function') {
+    throw new TypeError('Async schema validation is not supported');
+  }
+
+  const { issues } = result as StandardSchemaResult;
+  if (!issues) {
+    return { success: true, data: (result as { value: unknown }).value };
+  }
+  return { success: false, issues: issues.map(toSchemaIssue) };
+}
+
+function toSchemaIssue(issue: StandardSchemaIssue): SchemaIssue {
+  const path = (issue.path ?? []).map((segment) => {
+    const key = typeof segment === 'object' ? segment.key : segment;
+    return typeof key === 'number' ? key : String(key);
+  });
+  return { code: 'custom', path, message: issue.message };
+}
@@ -0,0 +1,283 @@
+import type { ParseOptions } from './types';
+import { ParseContext, createContext, findRootStart, parseWithRepair, prepareInput } from './core';
+import { dialectWords } from './dialects';
+import { applySchemaFixes } from './fixes';
+import { ContainerScan, JSON_SYNTAX, ScanSyntax, scanContainer } from './scanner';
+
+/**
+ * Options for streaming parsers
+ * Streaming always runs the repair pipeline, so `mode` is not configurable
+ */
+export type StreamingParseOptions = Omit<ParseOptions, 'mode'>;
+
+/**
+ * Incremental parser fed with chunks of a streamed LLM response
+ */
+export interface StreamingParser<T = unknown> {
+  /**
+   * Appends a chunk and returns the best-effort partial value so far
+   * Returns undefined while no JSON can be recovered yet
+   */
+  push(chunk: string): Partial<T> | undefined;
+
+  /**
+   * Finishes the stream and returns the final parsed value
+   * @throws NoJsonFoundError or RepairFailedError if the response holds no valid JSON
+   */
+  end(): T;
+
+  /**
+   * Text received so far
+   */
+  readonly text: string;
+}
+
+/**
+ * Value emitted by parseFromLLMStream
+ * - done: false for partial values after each chunk, true for the final result
+ */
+export type StreamEvent<T = unknown> = { data: Partial<T>; done: false } | { data: T; done: true };
+
+/**
+ * Creates an incremental parser for streamed LLM output
+ *
+ * @param options - Parsing options (repair mode is always used)
+ * @returns Streaming parser accepting chunks via push()
+ *
+ * @example
+ * ```ts
+ * const parser = createStreamingParser({ schema });
+ * for await (const chunk of llmStream) {
+ *   render(parser.push(chunk));
+ * }
+ * const data = parser.end();
+ * ```
+ */
+export function createStreamingParser<T = unknown>(
+  options?: StreamingParseOptions
+): StreamingParser<T> {
+  const context = createContext(options);
+  // Custom strategies and reasoning patterns may read any character, so every chunk counts
+  const skipsChunks =
+    !context.strategies && !context.reasoning?.tags.some((tag) => tag instanceof RegExp);
+  let buffer = '';
+  let latest: Partial<T> | undefined;
+  let position: StreamPosition | undefined;
+
+  const parseBuffer = (): T => {
+    // Reasoning and code fences are masked first, so their JSON is never closed off
+    const prepared = prepareInput(buffer, context);
+    position = skipsChunks ? streamPosition(prepared, context) : undefined;
+    let result = parseWithRepair(closeUnfinishedJson(prepared, context), context);
+    if (context.schema) {
+      result = applySchemaFixes(result, context.schema, options, context);
+    }
+    return result as T;
+  };
+
+  return {
+    push(chunk: string) {
+      buffer += chunk;
+      const skipped = position && skipChunk(position, chunk, context.syntax ?? JSON_SYNTAX);
+      if (skipped) {
+        position = skipped;
+        return latest;
+      }
+
+      try {
+        latest = parseBuffer();
+      } catch {
+        // Not enough text yet, keep the previous partial value
+      }
+      return latest;
+    },
+
+    end() {
+      return parseBuffer();
+    },
+
+    get text() {
+      return buffer;
+    },
+  };
+}
+
+/**
+ * Parses a streamed LLM response, yielding partial values as chunks arrive
+ *
+ * @param stream - Async iterable of text chunks
+ * @param options - Parsing options (repair mode is always used)
+ * @returns Async generator of partial events followed by one final event
+ * @throws NoJsonFoundError or RepairFailedError if no valid JSON is found once the stream ends
+ *
+ * @example
+ * ```ts
+ * for await (const { data, done } of parseFromLLMStream(llmStream, { schema })) {
+ *   render(data, done);
+ * }
+ * ```
+ */
+export async function* parseFromLLMStream<T = unknown>(
+  stream: AsyncIterable<string>,
+  options?: StreamingParseOptions
+): AsyncGenerator<StreamEvent<T>> {
+  const parser = createStreamingParser<T>(options);
+
+  for await (const chunk of stream) {
+    const partial = parser.push(chunk);
+    if (partial !== undefined) {
+      yield { data: partial, done: false };
+    }
+  }
+
+  yield { data: parser.end(), done: true };
+}
+
+/**
+ * Where the text received so far ends, to skip chunks that cannot change the value
+ * - between: between the tokens of an unfinished root, after punctuation; `key` tells
+ *   whether a string opened there is a member key
+ * - key: in the key of a member without a value yet, which is dropped when closing
+ * - after: past complete roots, outside any container
+ */
+type StreamPosition =
+  | { at: 'between'; key: boolean }
+  | { at: 'key'; quote: string; part: 'name' | 'quote' | 'colon' }
+  | { at: 'after' };
+
+/**
+ * Characters that may open or close reasoning blocks and code fences
+ */
+const MARKUP = '<`~';
+
+/**
+ * Characters that may still be part of a number or literal
+ */
+const WORD_CHAR = /[\p{L}\p{N}_$.+-]/u;
+
+/**
+ * Finds where prepared text ends, or undefined when no chunk can be skipped from there
+ */
+function streamPosition(text: string, context: ParseContext): StreamPosition | undefined {
+  const syntax = context.syntax ?? JSON_SYNTAX;
+  const lastLine = text.slice(text.lastIndexOf('\n') + 1);
+  const inComment =
+    syntax.lineComments.some((opener) => lastLine.includes(opener)) ||
+    (syntax.blockComments && text.includes('/*'));
+  // A whole answer encoded as a string literal is decoded before parsing
+  const first = text.trimStart()[0];
+  if (inComment || (first && syntax.quotes.includes(first))) return undefined;
+
+  const root = scanLastRoot(text, context);
+  if (!root) return undefined;
+  const { scan } = root;
+  if (scan.end !== -1) return { at: 'after' };
+
+  const inObject = scan.unclosed[scan.unclosed.length - 1] === '}';
+  if (scan.inString) {
+    const opener = text.lastIndexOf(scan.quote);
+    const before = text.slice(0, opener).trimEnd();
+    const isKey = inObject && !scan.danglingEscape && text[opener - 1] !== '\\';
+    return isKey && /[{,]$/.test(before)
+      ? { at: 'key', quote: scan.quote, part: 'name' }
+      : undefined;
+  }
+
+  const last = text.trimEnd().slice(-1);
+  if (WORD_CHAR.test(last)) return undefined;
+  return { at: 'between', key: inObject && (last === '{' || last === ',') };
+}
+
+/**
+ * Position after `chunk` when none of its characters can change the parsed value,
+ * or undefined when the text has to be parsed again
+ */
+function skipChunk(
+  position: StreamPosition,
+  chunk: string,
+  syntax: ScanSyntax
+): StreamPosition | undefined {
+  let current = position;
+
+  for (const char of chunk) {
+    if (MARKUP.includes(char)) return undefined;
+    const isSpace = /\s/.test(char);
+
+    if (current.at === 'after') {
+      if ('{}[]'.includes(char) || syntax.quotes.includes(char)) return undefined;
+    } else if (current.at === 'between') {
+      if (current.key && syntax.quotes.includes(char)) {
+        current = { at: 'key', quote: char, part: 'name' };
+      } else if (!isSpace) {
+        return undefined;
+      }
+    } else if (current.part === 'name') {
+      if (char === current.quote) current = { ...current, part: 'quote' };
+      else if (char === '\\' || char === '\n' || char === '\r') return undefined;
+    } else if (current.part === 'quote' && char === ':') {
+      current = { ...current, part: 'colon' };
+    } else if (!isSpace) {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+/**
+ * Scans the last root of the text, which is the only one that may be left open
+ * Complete roots before it are kept, so the candidate strategy can still choose between them
+ */
+function scanLastRoot(
+  text: string,
+  context: ParseContext
+): { start: number; scan: ContainerScan } | null {
+  const { rootKind, syntax } = context;
+  let start = findRootStart(text, rootKind, 0, syntax);
+  if (start === -1) return null;
+
+  let scan = scanContainer(text, start, { syntax });
+  while (scan.end !== -1) {
+    const next = findRootStart(text, rootKind, scan.end, syntax);
+    if (next === -1) break;
+    start = next;
+    scan = scanContainer(text, start, { syntax });
+  }
+  return { start, scan };
+}
+
+/**
+ * Closes unfinished strings, arrays and objects at the end of partial JSON
+ * Strings are closed with their own quote and literals completed with the words of
+ * the dialect, so Python's `Tr` becomes `True`.
+ */
+export function closeUnfinishedJson(text: string, context: ParseContext): string {
+  const root = scanLastRoot(text, context);
+  if (!root || root.scan.end !== -1) return text;
+
+  const { scan } = root;
+  let closed = text;
+
+  // Drop a dangling escape and close the open string
+  if (scan.danglingEscape) closed = closed.slice(0, -1);
+  closed += scan.quote;
+
+  // Complete a literal cut mid-token (t → true, fa → false, nu → null)
+  const words = dialectWords(context.dialect);
+  closed = closed.replace(/([:,[]\s*[+-]?)([A-Za-z]+)$/, (match, prefix, partial) => {
+    const literal = words.find((word) => word.startsWith(partial));
+    return literal ? prefix + literal : match;
+  });
+
+  // Drop a key that has no value yet
+  const closers = scan.unclosed;
+  if (closers[closers.length - 1] === '}') {
+    const quotes = [...(context.syntax ?? JSON_SYNTAX).quotes];
+    const key = quotes.map((quote) => `${quote}(?:[^${quote}\\\\]|\\\\.)*${quote}`).join('|');
+    closed = closed.replace(new RegExp(`([{,])\\s*(?:${key})\\s*:?\\s*$`), (_match, prefix) =>
+      prefix === '{' ? '{' : ''
+    );
+  }
+
+  return closed + closers.reverse().join('');
+}
@@ -0,0 +1,96 @@
+const LITERALS = ['true', 'false', 'null'];
+const NUMBER = /-?(?:0|[1-9]\d*)(?:\.\d+)?(?:[eE][+-]?\d+)?/y;
+
+/**
+ * Offset of the first character that breaks strict JSON, or -1 when the text is valid
+ * Native JSON.parse messages only sometimes carry a position, and their format
+ * changes between Node versions, so the text is walked here instead.
+ */
+export function findSyntaxError(text: string): number {
+  let pos = 0;
+
+  const skipSpace = () => {
+    while (pos < text.length && ' \t\n\r'.includes(text[pos]!)) pos++;
+  };
+
+  const string = (): boolean => {
+    pos++;
+    while (pos < text.length) {
+      const char = text[pos]!;
+      if (char === '"') {
+        pos++;
+        return true;
+      }
+      if (char === '\\') {
+        const escape = text[pos + 1];
+        if (escape === 'u' && /^[\da-fA-F]{4}$/.test(text.slice(pos + 2, pos + 6))) {
+          pos += 6;
+        } else if (escape !== undefined && '"\\/bfnrt'.includes(escape)) {
+          pos += 2;
+        } else {
+          pos++;
+          return false;
+        }
+        continue;
+      }
+      if (char < ' ') return false;
+      pos++;
+    }
+    return false;
+  };
+
+  const container = (close: string, member: () => boolean): boolean => {
+    pos++;
+    skipSpace();
+    if (text[pos] === close) {
+      pos++;
+      return true;
+    }
+
+    for (;;) {
+      skipSpace();
+      if (!member()) return false;
+      skipSpace();
+      if (text[pos] === close) {
+        pos++;
+        return true;
+      }
+      if (text[pos] !== ',') return false;
+      pos++;
+    }
+  };
+
+  const value = (): boolean => {
+    const char = text[pos];
+    if (char === '{') {
+      return container('}', () => {
+        if (text[pos] !== '"' || !string()) return false;
+        skipSpace();
+        if (text[pos] !== ':') return false;
+        pos++;
+        skipSpace();
+        return value();
+      });
+    }
+    if (char === '[') return container(']', value);
+    if (char === '"') return string();
+
+    const literal = LITERALS.find((word) => word[0] === char);
+    if (literal) {
+      let matched = 0;
+      while (matched < literal.length && text[pos + matched] === literal[matched]) matched++;
+      pos += matched;
+      return matched === literal.length;
+    }
+
+    NUMBER.lastIndex = pos;
+    if (!NUMBER.test(text)) return false;
+    pos = NUMBER.lastIndex;
+    return true;
+  };
+
+  skipSpace();
+  if (!value()) return pos;
+  skipSpace();
+  return pos < text.length ? pos : -1;
+}
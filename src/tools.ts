@@ -0,0 +1,66 @@
+import { isPlainObject } from './schema';
+
+/**
+ * A tool call found in a payload, before its arguments are parsed
+ */
+export interface RawToolCall {
+  id?: string;
+  name: string;
+
+  /**
+   * Arguments as sent: usually a JSON string (OpenAI) or an object (Anthropic)
+   */
+  arguments: unknown;
+}
+
+/**
+ * Finds tool calls in a parsed payload, in document order
+ * Recognizes OpenAI `tool_calls` entries ({ function: { name, arguments } }), the
+ * legacy `function_call` ({ name, arguments }) and Anthropic `tool_use` blocks
+ * ({ type: 'tool_use', name, input }), inside any wrapper (choices, message, content)
+ */
+export function findToolCalls(payload: unknown): RawToolCall[] {
+  const calls: RawToolCall[] = [];
+  collectToolCalls(payload, calls);
+  return calls;
+}
+
+function collectToolCalls(value: unknown, calls: RawToolCall[]): void {
+  if (Array.isArray(value)) {
+    value.forEach((item) => collectToolCalls(item, calls));
+    return;
+  }
+  if (!isPlainObject(value)) return;
+
+  const call = toToolCall(value);
+  if (call) {
+    calls.push(call);
+    return;
+  }
+
+  for (const [key, item] of Object.entries(value)) {
+    if (key === 'function_call' && isPlainObject(item) && typeof item.name === 'string') {
+      calls.push({ name: item.name, arguments: item.arguments });
+    } else {
+      collectToolCalls(item, calls);
+    }
+  }
+}
+
+/**
+ * Reads an OpenAI tool call or an Anthropic tool_use block, or returns null
+ */
+function toToolCall(value: Record<string, unknown>): RawToolCall | null {
+  const id = typeof value.id === 'string' ? value.id : undefined;
+
+  const fn = value.function;
+  if (isPlainObject(fn) && typeof fn.name === 'string') {
+    return { id, name: fn.name, arguments: fn.arguments };
+  }
+
+  if (value.type === 'tool_use' && typeof value.name === 'string') {
+    return { id, name: value.name, arguments: value.input };
+  }
+
+  return null;
+}
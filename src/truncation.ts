@@ -0,0 +1,172 @@
+import { findStringEnd } from './scanner';
+import { formatPath } from './schema';
+import type { Truncation } from './types';
+
+type PathSegment = string | number;
+
+/**
+ * Container still open while scanning
+ */
+interface OpenContainer {
+  kind: '{' | '[';
+  path: PathSegment[];
+
+  /**
+   * Current member key (objects) and element index (arrays)
+   */
+  key?: string;
+  index: number;
+
+  /**
+   * Whether the current member or element has started
+   */
+  started: boolean;
+  expectKey: boolean;
+}
+
+/**
+ * Where a JSON text was cut off, with the element a caller may want to drop
+ */
+export interface TruncationScan {
+  truncation: Truncation;
+
+  /**
+   * Path segments of the incomplete element, or null if none had started
+   */
+  incomplete: PathSegment[] | null;
+}
+
+/**
+ * Scans JSON text starting at its root opener and reports where it was cut off
+ * Returns null when the root is closed. The incomplete element is the current
+ * element of the innermost array that has one, otherwise the current member of
+ * the innermost object.
+ */
+export function detectTruncation(text: string): TruncationScan | null {
+  const stack: OpenContainer[] = [];
+  let stringStart = -1;
+  let stringIsKey = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]!;
+    const top = stack[stack.length - 1];
+
+    if (/\s/.test(char)) continue;
+
+    if (char === '"') {
+      const isKey = top?.kind === '{' && top.expectKey;
+      if (top) top.started = true;
+
+      const end = findStringEnd(text, i);
+      if (end === -1) {
+        stringStart = i;
+        stringIsKey = isKey;
+        break;
+      }
+      if (isKey && top) {
+        top.key = decodeKey(text.slice(i + 1, end));
+        top.expectKey = false;
+      }
+      i = end;
+    } else if (char === '{' || char === '[') {
+      const path = top ? [...top.path, currentSegment(top)] : [];
+      if (top) top.started = true;
+      stack.push({ kind: char, path, index: 0, started: false, expectKey: char === '{' });
+    } else if (char === '}' || char === ']') {
+      stack.pop();
+      if (stack.length === 0) return null;
+    } else if (char === ',' && top) {
+      top.index++;
+      top.key = undefined;
+      top.started = false;
+      top.expectKey = top.kind === '{';
+    } else if (char === ':' && top) {
+      top.expectKey = false;
+    } else if (top) {
+      top.started = true;
+    }
+  }
+
+  const top = stack[stack.length - 1];
+  if (!top) return null;
+
+  // An unfinished key string still names the member that was being written
+  if (stringStart !== -1 && stringIsKey) {
+    top.key = decodeKey(text.slice(stringStart + 1));
+  }
+
+  const inValueString = stringStart !== -1 && !stringIsKey;
+  const path = inValueString ? [...top.path, currentSegment(top)] : top.path;
+
+  return {
+    truncation: {
+      path: formatPath(path),
+      node: inValueString ? 'string' : top.kind === '{' ? 'object' : 'array',
+    },
+    incomplete: findIncomplete(stack),
+  };
+}
+
+/**
+ * Removes the value at the path from a parsed value, returning it if it was there
+ */
+export function dropAtPath(value: unknown, segments: PathSegment[]): { dropped: unknown } | null {
+  let parent = value;
+  for (const segment of segments.slice(0, -1)) {
+    parent = isContainer(parent) ? (parent as Record<PathSegment, unknown>)[segment] : undefined;
+  }
+
+  const last = segments[segments.length - 1];
+  if (last === undefined || !isContainer(parent)) return null;
+
+  if (Array.isArray(parent)) {
+    if (typeof last !== 'number' || last >= parent.length) return null;
+    return { dropped: parent.splice(last, 1)[0] };
+  }
+
+  const record = parent as Record<PathSegment, unknown>;
+  if (!(last in record)) return null;
+  const dropped = record[last];
+  delete record[last];
+  return { dropped };
+}
+
+/**
+ * Path segments of the element that was being written when the text ended
+ */
+function findIncomplete(stack: OpenContainer[]): PathSegment[] | null {
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const container = stack[i]!;
+    if (container.kind === '[' && container.started) {
+      return [...container.path, container.index];
+    }
+  }
+
+  const top = stack[stack.length - 1]!;
+  return top.kind === '{' && top.started && top.key !== undefined ? [...top.path, top.key] : null;
+}
+
+/**
+ * Path segment of the member or element currently being written
+ */
+function currentSegment(container: OpenContainer): PathSegment {
+  return container.kind === '[' ? container.index : (container.key ?? '');
+}
+
+/**
+ * Whether a parsed value can hold members or elements
+ */
+function isContainer(value: unknown): value is object {
+  return value !== null && typeof value === 'object';
+}
+
+/**
+ * Decodes the escapes of a raw key, keeping the raw text if it is malformed
+ */
+function decodeKey(raw: string): string {
+  try {
+    return JSON.parse(`"${raw}"`);
+  } catch {
+    return raw;
+  }
+}
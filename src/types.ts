@@ -0,0 +1,494 @@
+import type { z } from 'zod';
+import type { LoggingOptions } from './logger';
+import type { RepairStrategy } from './pipeline';
+
+/**
+ * Parsing mode options:
+ * - parse: Only basic JSON extraction and parsing
+ * - repair: All repair strategies including jsonrepair and schema fixes
+ */
+export type ParseMode = 'parse' | 'repair';
+
+/**
+ * Options for parseFromLLM function
+ * Also accepts `logger` and `logLevel` to override the configure() defaults per call
+ */
+export interface ParseOptions extends LoggingOptions {
+  /**
+   * Parsing mode
+   * @default 'parse'
+   */
+  mode?: ParseMode;
+
+  /**
+   * Optional schema for validation and structural fixes: Zod, any Standard Schema
+   * validator or a JSON Schema object
+   * In both modes it decides whether a root object or array is extracted;
+   * structural fixes are only applied in repair mode
+   */
+  schema?: SchemaInput;
+
+  /**
+   * Schema-guided coercion of nested values, per category (or `true` for all)
+   * Only used in repair mode with a schema
+   * @default false
+   */
+  coerce?: boolean | CoerceOptions;
+
+  /**
+   * Schema-guided renaming of misnamed keys at any depth
+   * (favorite_band → favoriteBand, Name → name, e-mail → email)
+   * Only used in repair mode with a schema
+   * @default false
+   */
+  fuzzyKeys?: boolean | FuzzyKeyOptions;
+
+  /**
+   * How to choose between several JSON candidates in repair mode
+   * @default 'best-schema-match' with a schema, 'first' without
+   */
+  candidateStrategy?: CandidateStrategy;
+
+  /**
+   * Removes reasoning blocks such as <think>...</think> before extraction
+   * Pass an object to add tag names or patterns, or to only read inside an answer tag
+   * @default true
+   */
+  stripReasoning?: boolean | ReasoningOptions;
+
+  /**
+   * When the output was cut off, drops the element that was being written instead
+   * of keeping a half-finished value (repair mode only)
+   * @default false
+   */
+  dropIncomplete?: boolean;
+
+  /**
+   * Number of JSON string layers repair mode decodes: an answer that is a JSON
+   * string literal ("{\"a\": 1}"), or fields holding stringified JSON (see
+   * `decodeFields`). 0 disables decoding
+   * @default 2
+   */
+  maxDecodeDepth?: number;
+
+  /**
+   * Decodes fields holding stringified JSON in repair mode. With a schema, fields
+   * are only decoded where it expects an object or array; without one, every
+   * field that holds a JSON object or array is decoded
+   * @default true with a schema, false without
+   */
+  decodeFields?: boolean;
+
+  /**
+   * JSON values written in place of NaN, Infinity, -Infinity and undefined
+   * literals (repair mode, or a dialect that has them), e.g. { NaN: 0 }.
+   * Unmapped literals become null
+   */
+  specialValues?: SpecialValues;
+
+  /**
+   * Syntax the answer is written in, parsed with a matching grammar before any
+   * generic repair. Each dialect is a superset of JSON:
+   * - json: standard JSON only
+   * - jsonc: comments and trailing commas
+   * - json5: JSONC plus single quotes, identifier keys, hex, .5, +1, Infinity, NaN
+   * - python: literal reprs such as {'a': True, 'b': None, 'c': (1, 2)}
+   * - auto: json5, then python
+   * @default 'json'
+   */
+  dialect?: Dialect;
+
+  /**
+   * Repair pipeline steps, in order within each stage (repair mode only)
+   * Names refer to built-ins (see DEFAULT_STRATEGIES) or registered strategies;
+   * strategy objects can be listed directly. Steps left out do not run.
+   * @default DEFAULT_STRATEGIES, then registered strategies
+   */
+  strategies?: readonly (string | RepairStrategy)[];
+}
+
+/**
+ * Schemas accepted by the `schema` option: Zod 3 or 4, any Standard Schema
+ * validator (Valibot, ArkType, Effect Schema, ...) or a JSON Schema object
+ */
+export type SchemaInput = z.ZodTypeAny | StandardSchemaV1 | JsonSchema;
+
+/**
+ * The Standard Schema interface (https://standardschema.dev), implemented by
+ * Zod, Valibot, ArkType and others
+ */
+export interface StandardSchemaV1<Input = unknown, Output = Input> {
+  readonly '~standard': {
+    readonly version: 1;
+    readonly vendor: string;
+    readonly validate: (
+      value: unknown
+    ) => StandardSchemaResult<Output> | Promise<StandardSchemaResult<Output>>;
+    readonly types?: { readonly input: Input; readonly output: Output };
+  };
+}
+
+export type StandardSchemaResult<Output = unknown> =
+  | { readonly value: Output; readonly issues?: undefined }
+  | { readonly issues: ReadonlyArray<StandardSchemaIssue> };
+
+export interface StandardSchemaIssue {
+  readonly message: string;
+  readonly path?: ReadonlyArray<PropertyKey | { readonly key: PropertyKey }>;
+}
+
+/**
+ * Output type of a Standard Schema
+ */
+export type InferStandardOutput<S extends StandardSchemaV1> = NonNullable<
+  S['~standard']['types']
+>['output'];
+
+/**
+ * JSON Schema object, as produced by OpenAPI tools, Pydantic or zod-to-json-schema
+ * The built-in validator supports type, properties, required, items, enum,
+ * additionalProperties, default and anyOf; other keywords are accepted and ignored
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: unknown[];
+  additionalProperties?: boolean | JsonSchema;
+  default?: unknown;
+  anyOf?: JsonSchema[];
+  [keyword: string]: unknown;
+}
+
+export type JsonSchemaType =
+  | 'object'
+  | 'array'
+  | 'string'
+  | 'number'
+  | 'integer'
+  | 'boolean'
+  | 'null';
+
+/**
+ * A schema validation problem, shaped like a Zod issue
+ */
+export interface SchemaIssue {
+  code: string;
+  path: (string | number)[];
+  message: string;
+}
+
+/**
+ * Settings for stripping reasoning blocks
+ */
+export interface ReasoningOptions {
+  /**
+   * Extra tag names (e.g. 'analysis') or patterns to remove, added to the built-in
+   * think, thinking, reasoning, reflection and scratchpad tags
+   */
+  tags?: Array<string | RegExp>;
+
+  /**
+   * Only extract JSON from inside this tag (e.g. 'answer' or 'json') when it is present
+   */
+  answerTag?: string;
+}
+
+/**
+ * Options for parseWithRetry
+ * Repair mode is the default here, since the model output is repaired before asking again
+ */
+export interface RetryOptions<S extends SchemaInput = SchemaInput> extends Omit<
+  ParseOptions,
+  'schema'
+> {
+  /**
+   * Schema the result must satisfy; mismatches trigger a retry
+   */
+  schema?: S;
+
+  /**
+   * Sends the correction prompt to the model and resolves with its new output
+   */
+  fix: (prompt: string, failure: RetryFailure) => Promise<string>;
+
+  /**
+   * Total number of parse attempts, including the first one
+   * @default 3
+   */
+  maxAttempts?: number;
+
+  /**
+   * Builds the correction prompt instead of the default one
+   */
+  buildPrompt?: (failure: RetryFailure) => string;
+}
+
+/**
+ * A failed attempt, passed to the prompt builder and the fix callback
+ */
+export interface RetryFailure {
+  /**
+   * Number of the attempt that failed, starting at 1
+   */
+  attempt: number;
+
+  /**
+   * Model output that failed to parse or validate
+   */
+  output: string;
+
+  /**
+   * Parse error, or SchemaMismatchError with the Zod issues
+   */
+  error: Error;
+}
+
+/**
+ * Candidate selection strategies:
+ * - first: first candidate that parses
+ * - last: last top-level candidate that parses
+ * - largest: longest candidate that parses
+ * - best-schema-match: ranked by schema validation, then key overlap, then size
+ */
+export type CandidateStrategy = 'first' | 'last' | 'largest' | 'best-schema-match';
+
+/**
+ * Options for parseAllFromLLM
+ * `schema` describes a single item rather than the whole response
+ */
+export interface ParseAllOptions extends ParseOptions {
+  /**
+   * Validate each item against the schema:
+   * - skip: drop items that do not match
+   * - throw: throw SchemaMismatchError on the first item that does not match
+   * Items are not validated when omitted
+   */
+  validate?: 'skip' | 'throw';
+}
+
+/**
+ * Options for parseToolCalls
+ * Repair mode is the default here, since tool arguments are rarely wrapped in prose
+ * but often malformed
+ */
+export interface ToolCallOptions extends Omit<ParseOptions, 'schema'> {
+  /**
+   * Schema per tool name; calls to other tools are parsed without a schema
+   */
+  schemas?: Record<string, SchemaInput>;
+
+  /**
+   * Validate the arguments of calls that have a schema:
+   * - skip: drop calls that do not match
+   * - throw: throw a ToolCallError on the first call that does not match
+   * Arguments are not validated when omitted
+   */
+  validate?: 'skip' | 'throw';
+}
+
+/**
+ * A tool call with its parsed arguments
+ */
+export interface ParsedToolCall<T = unknown> {
+  /**
+   * Call id (OpenAI `id` or Anthropic `tool_use` id), when present
+   */
+  id?: string;
+  name: string;
+  arguments: T;
+}
+
+/**
+ * Options for fuzzy key matching
+ */
+export interface FuzzyKeyOptions {
+  /**
+   * Maximum edit distance between normalized key names; 0 only matches
+   * case and separator differences
+   * @default 0
+   */
+  maxDistance?: number;
+}
+
+/**
+ * Coercion categories applied at every level of the schema:
+ * - numbers: numeric strings where a number is expected ("30" → 30)
+ * - booleans: "yes"/"no", "true"/"false", "on"/"off" where a boolean is expected
+ * - arrays: a single value where an array is expected is wrapped in an array
+ * - enums: enum values that differ only by case or whitespace
+ * - defaults: missing fields filled from schema defaults
+ * - stripUnknown: extra keys dropped from strict objects
+ */
+export interface CoerceOptions {
+  numbers?: boolean;
+  booleans?: boolean;
+  arrays?: boolean;
+  enums?: boolean;
+  defaults?: boolean;
+  stripUnknown?: boolean;
+}
+
+/**
+ * Input syntax accepted besides JSON (see the dialect option)
+ */
+export type Dialect = 'json' | 'jsonc' | 'json5' | 'python' | 'auto';
+
+/**
+ * Non-standard literals repair mode maps to JSON values (see specialValues)
+ */
+export type SpecialLiteral = 'NaN' | 'Infinity' | '-Infinity' | 'undefined';
+
+export type SpecialValues = Partial<Record<SpecialLiteral, string | number | boolean | null>>;
+
+/**
+ * Kinds of repairs recorded in a parse report:
+ * - constant: partial or non-standard constant normalized (tru, None, NULL, NaN)
+ * - jsonrepair: candidate syntax fixed by jsonrepair
+ * - quote-escape: unescaped quote inside a string escaped
+ * - single-quote: single-quoted string rewritten with double quotes
+ * - record-split: records merged into one array element split apart
+ * - drop-incomplete: element cut off by truncation removed (see dropIncomplete)
+ * - root-rename: wrong root key renamed to match the schema
+ * - root-wrap: missing root key added around the value
+ * - key-rename: misnamed nested key renamed to match the schema (see fuzzyKeys)
+ * - coerce-*, fill-default, strip-key: schema-guided coercion (see CoerceOptions)
+ * - custom: made by a user-defined repair strategy
+ */
+export type RepairKind =
+  | 'constant'
+  | 'jsonrepair'
+  | 'quote-escape'
+  | 'single-quote'
+  | 'record-split'
+  | 'drop-incomplete'
+  | 'decode-string'
+  | 'root-rename'
+  | 'root-wrap'
+  | 'key-rename'
+  | 'coerce-number'
+  | 'coerce-boolean'
+  | 'coerce-array'
+  | 'coerce-enum'
+  | 'fill-default'
+  | 'strip-key'
+  | 'custom';
+
+/**
+ * A single repair applied while parsing
+ */
+export interface RepairRecord {
+  kind: RepairKind;
+
+  /**
+   * Character offset in the input, for text-level repairs
+   */
+  offset?: number;
+
+  /**
+   * JSON path of the affected value, for structural repairs
+   */
+  path?: string;
+
+  before: string;
+  after: string;
+
+  /**
+   * Name of the strategy that made a custom repair
+   */
+  strategy?: string;
+}
+
+/**
+ * Character span [start, end) of the extracted JSON in the input
+ */
+export interface JsonSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * How the returned value was found:
+ * - candidate: one of the balanced JSON candidates
+ * - first-complete: fallback to the first complete JSON block
+ * - scalar: the whole input was a bare JSON scalar
+ * Custom extractors report their own name.
+ */
+export type ParseStrategy = 'candidate' | 'first-complete' | 'scalar' | string;
+
+/**
+ * A parse attempt that failed in repair mode, carried by RepairFailedError
+ */
+export interface RepairAttempt {
+  strategy: ParseStrategy;
+
+  /**
+   * Offset in the input of the JSON text that was tried
+   */
+  offset: number;
+
+  /**
+   * Why parsing and repairing it failed
+   */
+  error: string;
+}
+
+/**
+ * Confidence that the returned value is what the LLM meant:
+ * - high: valid JSON, no repairs needed
+ * - medium: a few repairs applied
+ * - low: heavy repairs, a fallback strategy or truncated output
+ */
+export type ParseConfidence = 'high' | 'medium' | 'low';
+
+/**
+ * Where a cut-off response ended
+ */
+export interface Truncation {
+  /**
+   * JSON path of the innermost unclosed node, in the parsed JSON before schema fixes
+   */
+  path: string;
+
+  /**
+   * Kind of the unclosed node
+   */
+  node: 'string' | 'array' | 'object';
+}
+
+/**
+ * Detailed report of how a value was extracted and repaired
+ */
+export interface ParseReport {
+  mode: ParseMode;
+  repairs: RepairRecord[];
+  span: JsonSpan | null;
+  candidatesTried: number;
+  strategy: ParseStrategy | null;
+  usedJsonRepair: boolean;
+  confidence: ParseConfidence;
+
+  /**
+   * Whether the returned JSON was cut off (e.g. the response hit max_tokens)
+   */
+  truncated: boolean;
+  truncation: Truncation | null;
+}
+
+/**
+ * Result of safeParseFromLLM
+ * - success: the parsed (and, with a schema, validated) value
+ * - failure: the error, plus the best value recovered despite it when there is one
+ */
+export type SafeParseResult<T = unknown> =
+  | { success: true; data: T }
+  | { success: false; error: Error; partial?: unknown };
+
+/**
+ * Result of parseFromLLMWithReport
+ */
+export interface ParseResultWithReport<T = unknown> {
+  data: T;
+  report: ParseReport;
+}
@@ -0,0 +1,252 @@
+import type { z } from 'zod';
+import { defineLazy, mapValues, SchemaAdapter, SchemaNode, SchemaResult } from './schema';
+import type { SchemaIssue } from './types';
+
+/**
+ * Zod schema adapters
+ * Uses duck typing instead of instanceof, so schemas created by another Zod
+ * instance in the dependency tree are still recognized. Zod 3 keeps its definition
+ * in `_def` (with `typeName`), Zod 4 in `_zod.def` (with `type`).
+ */
+
+/**
+ * Zod 4 internals read by the adapter
+ */
+interface Zod4Schema {
+  _zod: { def: Zod4Def };
+  safeParse(value: unknown): {
+    success: boolean;
+    data?: unknown;
+    error?: { issues: SchemaIssue[] };
+  };
+}
+
+/**
+ * Zod 4 definition fields read by the adapter; each is only set for the `type`
+ * that has it
+ */
+interface Zod4Def {
+  type: string;
+  innerType: Zod4Schema;
+  defaultValue: unknown;
+  getter: () => Zod4Schema;
+  in: Zod4Schema;
+  shape: Record<string, Zod4Schema>;
+  catchall?: Zod4Schema;
+  element: Zod4Schema;
+  valueType: Zod4Schema;
+  entries: Record<string, unknown>;
+  options: Zod4Schema[];
+}
+
+/**
+ * Schema with its optional/default wrappers removed
+ */
+interface Unwrapped<S> {
+  schema: S;
+  optional: boolean;
+  defaultValue?: () => unknown;
+}
+
+export const zod3Adapter: SchemaAdapter = {
+  name: 'zod3',
+  matches: (schema) => typeof (schema as z.ZodTypeAny)?._def?.typeName === 'string',
+  describe: (schema) => describeZod3(schema as z.ZodTypeAny),
+};
+
+export const zod4Adapter: SchemaAdapter = {
+  name: 'zod4',
+  matches: (schema) => typeof (schema as Zod4Schema)?._zod?.def?.type === 'string',
+  describe: (schema) => describeZod4(schema as Zod4Schema),
+};
+
+/**
+ * Strips Zod 3 wrappers that do not change the JSON shape (optional, nullable,
+ * default, effects, lazy, branded, catch, readonly, pipeline input)
+ */
+function unwrapZod3(schema: z.ZodTypeAny): Unwrapped<z.ZodTypeAny> {
+  let current = schema;
+  let optional = false;
+  let defaultValue: (() => unknown) | undefined;
+
+  for (;;) {
+    const def = current?._def;
+    switch (def?.typeName) {
+      case 'ZodOptional':
+      case 'ZodNullable':
+        optional = true;
+        current = def.innerType;
+        break;
+      case 'ZodDefault':
+        optional = true;
+        defaultValue ??= def.defaultValue;
+        current = def.innerType;
+        break;
+      case 'ZodCatch':
+      case 'ZodReadonly':
+        current = def.innerType;
+        break;
+      case 'ZodEffects':
+        current = def.schema;
+        break;
+      case 'ZodBranded':
+        current = def.type;
+        break;
+      case 'ZodLazy':
+        current = def.getter();
+        break;
+      case 'ZodPipeline':
+        current = def.in;
+        break;
+      default:
+        return { schema: current, optional, defaultValue };
+    }
+  }
+}
+
+/**
+ * Describes a Zod 3 schema; validation runs on the wrapped schema so refinements,
+ * transforms and defaults still apply
+ */
+function describeZod3(schema: z.ZodTypeAny): SchemaNode {
+  const { schema: inner, optional, defaultValue } = unwrapZod3(schema);
+  const def = inner._def;
+  const node: SchemaNode = {
+    kind: 'other',
+    optional,
+    defaultValue,
+    safeParse: (value) => fromZodResult(schema.safeParse(value)),
+  };
+
+  switch (def?.typeName) {
+    case 'ZodObject':
+      node.kind = 'object';
+      node.strict = def.unknownKeys === 'strict';
+      defineLazy(node, 'shape', () => {
+        const shape = typeof def.shape === 'function' ? def.shape() : def.shape;
+        return mapValues(shape, describeZod3);
+      });
+      break;
+    case 'ZodArray':
+      node.kind = 'array';
+      defineLazy(node, 'items', () => describeZod3(def.type));
+      break;
+    case 'ZodRecord':
+      node.kind = 'record';
+      defineLazy(node, 'items', () => describeZod3(def.valueType));
+      break;
+    case 'ZodNumber':
+      node.kind = 'number';
+      break;
+    case 'ZodBoolean':
+      node.kind = 'boolean';
+      break;
+    case 'ZodEnum':
+      node.kind = 'enum';
+      node.values = def.values;
+      break;
+    case 'ZodUnion':
+    case 'ZodDiscriminatedUnion':
+      node.kind = 'union';
+      defineLazy(node, 'options', () => (def.options as z.ZodTypeAny[]).map(describeZod3));
+      break;
+  }
+
+  return node;
+}
+
+/**
+ * Strips Zod 4 wrappers that do not change the JSON shape
+ */
+function unwrapZod4(schema: Zod4Schema): Unwrapped<Zod4Schema> {
+  let current = schema;
+  let optional = false;
+  let defaultValue: (() => unknown) | undefined;
+
+  for (;;) {
+    const def = current._zod.def;
+    switch (def.type) {
+      case 'optional':
+      case 'nullable':
+        optional = true;
+        current = def.innerType;
+        break;
+      case 'default':
+      case 'prefault':
+        optional = true;
+        defaultValue ??= () => def.defaultValue;
+        current = def.innerType;
+        break;
+      case 'catch':
+      case 'readonly':
+      case 'nonoptional':
+        current = def.innerType;
+        break;
+      case 'lazy':
+        current = def.getter();
+        break;
+      case 'pipe':
+        current = def.in;
+        break;
+      default:
+        return { schema: current, optional, defaultValue };
+    }
+  }
+}
+
+/**
+ * Describes a Zod 4 schema; refinements live on the schema itself in Zod 4, and
+ * transforms are pipes, so validation again runs on the wrapped schema
+ */
+function describeZod4(schema: Zod4Schema): SchemaNode {
+  const { schema: inner, optional, defaultValue } = unwrapZod4(schema);
+  const def = inner._zod.def;
+  const node: SchemaNode = {
+    kind: 'other',
+    optional,
+    defaultValue,
+    safeParse: (value) => fromZodResult(schema.safeParse(value)),
+  };
+
+  switch (def.type) {
+    case 'object':
+      node.kind = 'object';
+      node.strict = def.catchall?._zod.def.type === 'never';
+      defineLazy(node, 'shape', () => mapValues(def.shape, describeZod4));
+      break;
+    case 'array':
+      node.kind = 'array';
+      defineLazy(node, 'items', () => describeZod4(def.element));
+      break;
+    case 'record':
+      node.kind = 'record';
+      defineLazy(node, 'items', () => describeZod4(def.valueType));
+      break;
+    case 'number':
+      node.kind = 'number';
+      break;
+    case 'boolean':
+      node.kind = 'boolean';
+      break;
+    case 'enum':
+      node.kind = 'enum';
+      node.values = Object.values(def.entries);
+      break;
+    case 'union':
+      node.kind = 'union';
+      defineLazy(node, 'options', () => def.options.map(describeZod4));
+      break;
+  }
+
+  return node;
+}
+
+function fromZodResult(result: {
+  success: boolean;
+  data?: unknown;
+  error?: { issues: SchemaIssue[] };
+}): SchemaResult {
+  return result.success
+    ? { success: true, data: result.data }
+    : { success: false, issues: result.error!.issues };
+}
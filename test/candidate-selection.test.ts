@@ -0,0 +1,77 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+const UserSchema = z.object({ user: z.object({ name: z.string(), age: z.number() }) });
+
+describe('candidate selection', () => {
+  test('picks the candidate that matches the schema over an earlier example', () => {
+    const llmOutput =
+      'Use this format: {"example": true}. Answer: {"user": {"name": "John", "age": 30}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(result).toEqual({ user: { name: 'John', age: 30 } });
+  });
+
+  test('counts root fixes when ranking candidates', () => {
+    // The answer is missing its root key but still fits better than the example
+    const llmOutput = 'Example: {"foo": "bar"} Answer: {"name": "John", "age": 30}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(result).toEqual({ user: { name: 'John', age: 30 } });
+  });
+
+  test('prefers more matching keys when no candidate validates', () => {
+    const llmOutput =
+      'Draft: {"user": {"name": "J"}} Final: {"user": {"name": "John", "age": "30"}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(result).toEqual({ user: { name: 'John', age: '30' } });
+  });
+
+  test('does not count keys inherited from Object.prototype as matches', () => {
+    const llmOutput = '{"constructor": 1, "toString": 2, "valueOf": 3} {"user": {"name": 1}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(result).toEqual({ user: { name: 1 } });
+  });
+
+  test('breaks ties by size', () => {
+    const llmOutput =
+      '{"user": {"name": "A", "age": 1}} {"user": {"name": "Bob", "age": 2}, "note": "longer"}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(result).toEqual({ user: { name: 'Bob', age: 2 }, note: 'longer' });
+  });
+
+  test('defaults to the first candidate without a schema', () => {
+    const llmOutput = '{"id": 1} then {"id": 2, "name": "B"}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ id: 1 });
+  });
+
+  test('supports last, largest and first strategies', () => {
+    const llmOutput = '{"id": 1, "name": "Alpha"} {"id": 2} {"id": 3}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', candidateStrategy: 'last' })).toEqual({
+      id: 3,
+    });
+    expect(parseFromLLM(llmOutput, { mode: 'repair', candidateStrategy: 'largest' })).toEqual({
+      id: 1,
+      name: 'Alpha',
+    });
+    expect(
+      parseFromLLM('{"foo": 1} {"user": {"name": "A", "age": 1}}', {
+        mode: 'repair',
+        schema: UserSchema,
+        candidateStrategy: 'first',
+      })
+    ).toEqual({ foo: 1 });
+  });
+
+  test('last ignores objects nested inside the last document', () => {
+    const llmOutput = '{"id": 1} {"id": 2, "child": {"id": 3}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', candidateStrategy: 'last' });
+    expect(result).toEqual({ id: 2, child: { id: 3 } });
+  });
+
+  test('reports the span of the selected candidate', () => {
+    const llmOutput = '{"example": true} {"user": {"name": "John", "age": 30}}';
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair', schema: UserSchema });
+    expect(report.span).toEqual({ start: 18, end: llmOutput.length });
+    expect(report.candidatesTried).toBeGreaterThan(1);
+  });
+});
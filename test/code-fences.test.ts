@@ -0,0 +1,83 @@
+import { describe, test, expect } from 'vitest';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+const fence = '```';
+
+describe('code fence extraction', () => {
+  test('ignores braces in prose around a json block', () => {
+    const llmOutput = `Use {placeholders} like {this}.
+${fence}json
+{"name": "John"}
+${fence}
+Replace {name} as needed.`;
+    expect(parseFromLLM(llmOutput)).toEqual({ name: 'John' });
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ name: 'John' });
+  });
+
+  test('prefers the json block over an earlier code block', () => {
+    const llmOutput = `First the code:
+${fence}javascript
+const config = { retries: 3 };
+${fence}
+Then the data:
+${fence}json
+{"retries": 3}
+${fence}`;
+    expect(parseFromLLM(llmOutput)).toEqual({ retries: 3 });
+  });
+
+  test('accepts jsonc, json5 and language hints in any case', () => {
+    for (const lang of ['jsonc', 'JSON5', 'Json']) {
+      const llmOutput = `${fence}python\nprint({"a": 0})\n${fence}\n${fence}${lang}\n{"a": 1}\n${fence}`;
+      expect(parseFromLLM(llmOutput)).toEqual({ a: 1 });
+    }
+  });
+
+  test('uses untagged blocks when no block is tagged as JSON', () => {
+    const llmOutput = `${fence}ts\nconst x = {"a": 0};\n${fence}\n${fence}\n{"a": 2}\n${fence}`;
+    expect(parseFromLLM(llmOutput)).toEqual({ a: 2 });
+  });
+
+  test('hides other-language blocks and reads JSON from the prose', () => {
+    const llmOutput = `${fence}js\nfetch(url, { method: 'POST' });\n${fence}\nResult: {"ok": true}`;
+    expect(parseFromLLM(llmOutput)).toEqual({ ok: true });
+  });
+
+  test('finds a json block nested inside another fence', () => {
+    const llmOutput = `${fence}\`markdown
+# Example
+${fence}json
+{"nested": true}
+${fence}
+${fence}\``;
+    expect(parseFromLLM(llmOutput)).toEqual({ nested: true });
+  });
+
+  test('ignores fences inside JSON string values', () => {
+    const llmOutput = `{"md": "see:\n${fence}js\nfoo({a:1})\n${fence}", "ok": true}`;
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      md: `see:\n${fence}js\nfoo({a:1})\n${fence}`,
+      ok: true,
+    });
+
+    const wrapped = `${fence}json\n{"md": "a\n${fence}\nb", "ok": true}\n${fence}`;
+    expect(parseFromLLM(wrapped, { mode: 'repair' })).toEqual({ md: `a\n${fence}\nb`, ok: true });
+  });
+
+  test('reads a json block whose closing fence is missing', () => {
+    const llmOutput = `${fence}js\nlet a = {};\n${fence}\n${fence}json\n{"items": [1, 2],}\n`;
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ items: [1, 2] });
+  });
+
+  test('returns every json block with parseAllFromLLM', () => {
+    const llmOutput = `${fence}json\n{"id": 1}\n${fence}\nSee {id} above.\n${fence}json\n{"id": 2}\n${fence}`;
+    expect(parseAllFromLLM(llmOutput)).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  test('reports spans relative to the original text', () => {
+    const llmOutput = `Braces {here}.\n${fence}json\n{"a": 1}\n${fence}`;
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+    const start = llmOutput.indexOf('{"a"');
+    expect(report.span).toEqual({ start, end: start + '{"a": 1}'.length });
+  });
+});
@@ -0,0 +1,133 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+const ProfileSchema = z.object({
+  user: z.object({
+    name: z.string(),
+    age: z.number(),
+    active: z.boolean(),
+    tags: z.array(z.string()),
+    status: z.enum(['active', 'on hold']),
+    role: z.string().default('member'),
+  }),
+});
+
+describe('schema-guided coercion', () => {
+  test('does nothing unless enabled', () => {
+    const llmOutput = '{"user": {"name": "John", "age": "30"}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: ProfileSchema });
+    expect(result).toEqual({ user: { name: 'John', age: '30' } });
+  });
+
+  test('does nothing in parse mode', () => {
+    const llmOutput = '{"user": {"name": "John", "age": "30"}}';
+    const result = parseFromLLM(llmOutput, { schema: ProfileSchema, coerce: true });
+    expect(result).toEqual({ user: { name: 'John', age: '30' } });
+  });
+
+  test('applies every category at nested levels with coerce: true', () => {
+    const llmOutput = `{"user": {
+      "name": "John",
+      "age": "30",
+      "active": "yes",
+      "tags": "admin",
+      "status": " On  Hold "
+    }}`;
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: ProfileSchema, coerce: true });
+
+    expect(result).toEqual({
+      user: {
+        name: 'John',
+        age: 30,
+        active: true,
+        tags: ['admin'],
+        status: 'on hold',
+        role: 'member',
+      },
+    });
+    expect(ProfileSchema.safeParse(result).success).toBe(true);
+  });
+
+  test('only applies enabled categories', () => {
+    const llmOutput = '{"user": {"name": "John", "age": "30", "active": "no"}}';
+    const result = parseFromLLM(llmOutput, {
+      mode: 'repair',
+      schema: ProfileSchema,
+      coerce: { numbers: true },
+    });
+    expect(result).toEqual({ user: { name: 'John', age: 30, active: 'no' } });
+  });
+
+  test('coerces inside arrays of objects and optional fields', () => {
+    const schema = z.object({
+      items: z.array(z.object({ id: z.number(), price: z.number().optional() })),
+    });
+    const llmOutput = '{"items": [{"id": "1", "price": "9.5"}, {"id": "2"}]}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, coerce: true });
+    expect(result).toEqual({ items: [{ id: 1, price: 9.5 }, { id: 2 }] });
+  });
+
+  test('leaves values that cannot be coerced untouched', () => {
+    const schema = z.object({
+      age: z.number(),
+      active: z.boolean(),
+      status: z.enum(['open', 'Open ']),
+    });
+    const llmOutput = '{"age": "thirty", "active": "maybe", "status": "OPEN"}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, coerce: true });
+    // "OPEN" is ambiguous between "open" and "Open "
+    expect(result).toEqual({ age: 'thirty', active: 'maybe', status: 'OPEN' });
+  });
+
+  test('drops extra keys only from strict objects', () => {
+    const schema = z.object({
+      strict: z.object({ a: z.number() }).strict(),
+      loose: z.object({ a: z.number() }),
+    });
+    const llmOutput = '{"strict": {"a": 1, "extra": 2}, "loose": {"a": 1, "extra": 2}}';
+    const result = parseFromLLM(llmOutput, {
+      mode: 'repair',
+      schema,
+      coerce: { stripUnknown: true },
+    });
+    expect(result).toEqual({ strict: { a: 1 }, loose: { a: 1, extra: 2 } });
+  });
+
+  test('strips keys named like inherited object properties', () => {
+    const schema = z.object({ name: z.string() }).strict();
+    const llmOutput = '{"name": "x", "constructor": "y", "toString": 1}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema, coerce: true })).toEqual({
+      name: 'x',
+    });
+  });
+
+  test('keeps a __proto__ key as an own property', () => {
+    const schema = z.object({ name: z.string() });
+    const llmOutput = '{"name": "x", "__proto__": {"isAdmin": true}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, coerce: true });
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect((result as Record<string, unknown>).isAdmin).toBeUndefined();
+    expect(Object.keys(result)).toEqual(['name', '__proto__']);
+  });
+
+  test('picks the union option the coerced value satisfies', () => {
+    const schema = z.object({ value: z.union([z.boolean(), z.number()]) });
+    const result = parseFromLLM('{"value": "42"}', { mode: 'repair', schema, coerce: true });
+    expect(result).toEqual({ value: 42 });
+  });
+
+  test('records each coercion with its JSON path in the report', () => {
+    const schema = z.object({ items: z.array(z.object({ id: z.number() })) });
+    const { report } = parseFromLLMWithReport('{"items": {"id": "7"}}', {
+      mode: 'repair',
+      schema,
+      coerce: true,
+    });
+    expect(report.repairs).toEqual([
+      { kind: 'coerce-array', path: '$.items', before: '{"id":"7"}', after: '[{"id":"7"}]' },
+      { kind: 'coerce-number', path: '$.items[0].id', before: '"7"', after: '7' },
+    ]);
+  });
+});
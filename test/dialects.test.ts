@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'vitest';
+import { JsonSyntaxError, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('input dialects', () => {
+  test('json accepts standard JSON only', () => {
+    const llmOutput = '{"a": 1, // note\n}';
+    expect(() => parseFromLLM(llmOutput)).toThrow(JsonSyntaxError);
+    expect(() => parseFromLLM(llmOutput, { dialect: 'json' })).toThrow(JsonSyntaxError);
+  });
+
+  test('jsonc accepts comments and trailing commas', () => {
+    const llmOutput = `Config:
+{
+  // the display name
+  "name": "app", /* inline */
+  "tags": ["a", "b",],
+}`;
+    expect(parseFromLLM(llmOutput, { dialect: 'jsonc' })).toEqual({
+      name: 'app',
+      tags: ['a', 'b'],
+    });
+  });
+
+  test('jsonc rejects the rest of JSON5 at the offending token', () => {
+    const llmOutput = "Here: {'a': 1}";
+    const error = (() => {
+      try {
+        parseFromLLM(llmOutput, { dialect: 'jsonc' });
+      } catch (e) {
+        return e as JsonSyntaxError;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(JsonSyntaxError);
+    expect(error?.offset).toBe(7);
+    expect(error?.message).toBe(
+      'Failed to parse JSON: Unexpected token "\'" in jsonc (line 1, column 8)'
+    );
+  });
+
+  test('json5 maps its extensions to JSON values', () => {
+    const llmOutput = `{
+      name: 'it\\'s \\x41',
+      hex: 0x1F,
+      negativeHex: -0xA,
+      half: .5,
+      whole: 5.,
+      plus: +1,
+      exponent: 1e3,
+      inf: Infinity,
+      negativeInf: -Infinity,
+      nan: NaN,
+      "quoted": "double",
+      list: [1, 2,],
+      multiline: 'a\\
+b',
+    }`;
+    expect(parseFromLLM(llmOutput, { dialect: 'json5' })).toEqual({
+      name: "it's A",
+      hex: 31,
+      negativeHex: -10,
+      half: 0.5,
+      whole: 5,
+      plus: 1,
+      exponent: 1000,
+      inf: null,
+      negativeInf: null,
+      nan: null,
+      quoted: 'double',
+      list: [1, 2],
+      multiline: 'ab',
+    });
+  });
+
+  test('maps Infinity and NaN through specialValues', () => {
+    const llmOutput = '[Infinity, -Infinity, NaN, +Infinity]';
+    const result = parseFromLLM(llmOutput, {
+      dialect: 'json5',
+      specialValues: { Infinity: 'inf', '-Infinity': '-inf', NaN: 0 },
+    });
+    expect(result).toEqual(['inf', '-inf', 0, 'inf']);
+  });
+
+  test('python maps literal reprs to JSON values', () => {
+    const llmOutput = `{'a': True, 'b': False, 'c': None, 'd': (1, 2), 'e': (), 'f': ('x',),
+      1: 'int key', 2.5: 'float key', True: 'bool key', None: 'none key',
+      'big': 1_000, 'oct': 0o17, 'bin': 0b101, 'hex': 0xff,
+      'quote': "it's", 'escape': 'it\\'s', 'unknown': '\\d+',  # trailing comment
+      'special': [nan, inf, -inf],
+    }`;
+    expect(parseFromLLM(llmOutput, { dialect: 'python' })).toEqual({
+      a: true,
+      b: false,
+      c: null,
+      d: [1, 2],
+      e: [],
+      f: ['x'],
+      '1': 'int key',
+      '2.5': 'float key',
+      true: 'bool key',
+      null: 'none key',
+      big: 1000,
+      oct: 15,
+      bin: 5,
+      hex: 255,
+      quote: "it's",
+      escape: "it's",
+      unknown: '\\d+',
+      special: [null, null, null],
+    });
+  });
+
+  test('python keeps JSON literals', () => {
+    expect(parseFromLLM('{"a": true, "b": [null, False]}', { dialect: 'python' })).toEqual({
+      a: true,
+      b: [null, false],
+    });
+  });
+
+  test('auto tries json5, then python', () => {
+    expect(parseFromLLM('{a: .5, // half\n}', { dialect: 'auto' })).toEqual({ a: 0.5 });
+    expect(parseFromLLM("{'a': True, 'b': (1, None)}", { dialect: 'auto' })).toEqual({
+      a: true,
+      b: [1, null],
+    });
+    expect(() => parseFromLLM('{a: }', { dialect: 'auto' })).toThrow(JsonSyntaxError);
+  });
+
+  test('skips brackets inside dialect strings and comments when extracting', () => {
+    expect(parseFromLLM("Result: {'a': '}'} done", { dialect: 'python' })).toEqual({ a: '}' });
+    expect(parseFromLLM('{"a": 1 /* } */ , "b": 2}', { dialect: 'jsonc' })).toEqual({
+      a: 1,
+      b: 2,
+    });
+    expect(
+      parseFromLLM('{"a": 1, // close with }\n "b": 2}', { mode: 'repair', dialect: 'jsonc' })
+    ).toEqual({ a: 1, b: 2 });
+    expect(parseFromLLM("{'a': [1, '] # ['], # ]\n 'b': 2}", { dialect: 'auto' })).toEqual({
+      a: [1, '] # ['],
+      b: 2,
+    });
+  });
+
+  test('keeps a __proto__ key as an own property', () => {
+    const result = parseFromLLM("{'__proto__': {'polluted': True}}", { dialect: 'python' });
+    expect(Object.keys(result)).toEqual(['__proto__']);
+    expect(({} as Record<string, unknown>).polluted).toBeUndefined();
+  });
+
+  test('runs ahead of jsonrepair in repair mode', () => {
+    const llmOutput = 'Result: {count: 0x10, ratio: .5, /* estimate */ sign: +1,}';
+    const { data, report } = parseFromLLMWithReport(llmOutput, {
+      mode: 'repair',
+      dialect: 'json5',
+    });
+
+    expect(data).toEqual({ count: 16, ratio: 0.5, sign: 1 });
+    expect(report.repairs).toEqual([]);
+  });
+
+  test('falls back to the generic repairs when the dialect grammar fails', () => {
+    const llmOutput = '{"name": "John", "age": 30';
+    const { data, report } = parseFromLLMWithReport(llmOutput, {
+      mode: 'repair',
+      dialect: 'jsonc',
+    });
+
+    expect(data).toEqual({ name: 'John', age: 30 });
+    expect(report.truncated).toBe(true);
+  });
+});
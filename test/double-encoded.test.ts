@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+const encode = (value: unknown) => JSON.stringify(value);
+
+describe('double-encoded JSON', () => {
+  test('decodes an answer that is a JSON string literal', () => {
+    const llmOutput = encode(encode({ name: 'John', tags: ['a "quoted" tag'] }));
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ name: 'John', tags: ['a "quoted" tag'] });
+    expect(report.repairs[0]).toMatchObject({ kind: 'decode-string', offset: 0 });
+    expect(report.span).toEqual({ start: 0, end: llmOutput.length });
+  });
+
+  test('decodes escaped JSON without surrounding quotes', () => {
+    const llmOutput = '{\\"name\\": \\"John\\", \\"age\\": 30}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ name: 'John', age: 30 });
+  });
+
+  test('decodes stringified fields at any depth with decodeFields', () => {
+    const llmOutput = encode({
+      data: encode({ a: 1 }),
+      list: [encode([1, 2]), 'plain text', '{not json}'],
+      nested: { inner: encode({ b: encode({ c: true }) }) },
+    });
+    const { data, report } = parseFromLLMWithReport(llmOutput, {
+      mode: 'repair',
+      decodeFields: true,
+    });
+
+    expect(data).toEqual({
+      data: { a: 1 },
+      list: [[1, 2], 'plain text', '{not json}'],
+      nested: { inner: { b: { c: true } } },
+    });
+    expect(report.repairs.map((r) => r.path)).toEqual([
+      '$.data',
+      '$.list[0]',
+      '$.nested.inner',
+      '$.nested.inner.b',
+    ]);
+  });
+
+  test('stops at maxDecodeDepth', () => {
+    const llmOutput = encode({ data: encode(encode({ a: 1 })) });
+    const options = { mode: 'repair', decodeFields: true } as const;
+
+    expect(parseFromLLM(llmOutput, options)).toEqual({ data: { a: 1 } });
+    expect(parseFromLLM(llmOutput, { ...options, maxDecodeDepth: 1 })).toEqual(
+      JSON.parse(llmOutput)
+    );
+    expect(
+      parseFromLLM(encode({ data: encode({ a: 1 }) }), { ...options, maxDecodeDepth: 0 })
+    ).toEqual({ data: '{"a":1}' });
+  });
+
+  test('leaves fields alone without a schema', () => {
+    const llmOutput = '{"a": "[1]", "b": "{}", "c": "{\\"x\\": 1}"}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      a: '[1]',
+      b: '{}',
+      c: '{"x": 1}',
+    });
+  });
+
+  test('only decodes fields the schema expects to be objects or arrays', () => {
+    const schema = z.object({
+      payload: z.object({ a: z.number() }),
+      items: z.array(z.number()).optional(),
+      raw: z.string(),
+    });
+    const llmOutput = encode({
+      payload: encode({ a: 1 }),
+      items: encode([1, 2]),
+      raw: encode({ keep: 'as text' }),
+      extra: encode({ unknown: true }),
+    });
+
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual({
+      payload: { a: 1 },
+      items: [1, 2],
+      raw: '{"keep":"as text"}',
+      extra: '{"unknown":true}',
+    });
+  });
+
+  test('runs schema fixes on the decoded value', () => {
+    const schema = z.object({ user: z.object({ name: z.string() }) });
+    const llmOutput = encode(encode({ name: 'John' }));
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual({
+      user: { name: 'John' },
+    });
+  });
+
+  test('decodes each document in parseAllFromLLM', () => {
+    const llmOutput = `${encode({ id: 1, meta: encode({ ok: true }) })}\n${encode({ id: 2 })}`;
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair', decodeFields: true })).toEqual([
+      { id: 1, meta: { ok: true } },
+      { id: 2 },
+    ]);
+  });
+
+  test('leaves parse mode unchanged', () => {
+    const llmOutput = encode({ data: encode({ a: 1 }) });
+    expect(parseFromLLM(llmOutput)).toEqual({ data: '{"a":1}' });
+  });
+});
@@ -0,0 +1,68 @@
+import { describe, test, expect } from 'vitest';
+import {
+  JsonSyntaxError,
+  NoJsonFoundError,
+  RepairFailedError,
+  parseAllFromLLM,
+  parseFromLLM,
+} from '../src/index';
+
+function thrownBy(fn: () => unknown): unknown {
+  try {
+    fn();
+  } catch (error) {
+    return error;
+  }
+  throw new Error('Expected the call to throw');
+}
+
+describe('typed errors', () => {
+  test('throws NoJsonFoundError in both modes', () => {
+    for (const mode of ['parse', 'repair'] as const) {
+      const error = thrownBy(() => parseFromLLM('No JSON here', { mode }));
+      expect(error).toBeInstanceOf(NoJsonFoundError);
+      expect(error).toMatchObject({ name: 'NoJsonFoundError' });
+    }
+  });
+
+  test('locates syntax errors in the raw input', () => {
+    const llmOutput = 'Result:\n{\n  "name": "John"\n  "age": 30\n}';
+    const error = thrownBy(() => parseFromLLM(llmOutput)) as JsonSyntaxError;
+
+    expect(error).toBeInstanceOf(JsonSyntaxError);
+    expect(error.offset).toBe(llmOutput.indexOf('"age"'));
+    expect(error.line).toBe(4);
+    expect(error.column).toBe(3);
+    expect(error.snippet).toContain('"age": 30');
+    expect(error.message).toMatch(/^Failed to parse JSON: .* \(line 4, column 3\)$/);
+  });
+
+  test('locates errors that native messages give no position for', () => {
+    const trailingComma = thrownBy(() => parseFromLLM('Data: [1, 2,]')) as JsonSyntaxError;
+    expect(trailingComma.offset).toBe(12);
+
+    const partialConstant = thrownBy(() => parseFromLLM('{"ok": tru}')) as JsonSyntaxError;
+    expect(partialConstant.offset).toBe(10);
+    expect(partialConstant.column).toBe(11);
+  });
+
+  test('lists every failed attempt in RepairFailedError', () => {
+    const error = thrownBy(() => parseFromLLM('A: {::} B: {::}', { mode: 'repair' }));
+
+    expect(error).toBeInstanceOf(RepairFailedError);
+    const { attempts } = error as RepairFailedError;
+    expect(attempts.map(({ strategy, offset }) => ({ strategy, offset }))).toEqual([
+      { strategy: 'candidate', offset: 3 },
+      { strategy: 'candidate', offset: 11 },
+      { strategy: 'first-complete', offset: 3 },
+    ]);
+    expect(attempts.every((attempt) => attempt.error.length > 0)).toBe(true);
+    expect((error as Error).message).toMatch(/^No valid JSON found in the string\. Tried/);
+  });
+
+  test('uses the same errors for parseAllFromLLM', () => {
+    expect(() => parseAllFromLLM('nothing')).toThrow(NoJsonFoundError);
+    expect(() => parseAllFromLLM('{"a": 1,}\n{"b": }')).toThrow(JsonSyntaxError);
+    expect(() => parseAllFromLLM('{::}', { mode: 'repair' })).toThrow(RepairFailedError);
+  });
+});
@@ -0,0 +1,120 @@
+import { describe, test, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  NoJsonFoundError,
+  createStreamingParser,
+  parseAllFromLLM,
+  parseFromLLM,
+  parseFromLLMWithReport,
+} from '../src/index';
+
+// String contents lean on the characters that confuse bracket counting
+const text = fc.string({
+  unit: fc.constantFrom(...'ab yz{}[]"\\,\n'.split('')),
+  maxLength: 12,
+});
+
+const { json } = fc.letrec((tie) => ({
+  value: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    text,
+    fc.integer(),
+    fc.boolean(),
+    fc.constant(null),
+    tie('json')
+  ),
+  json: fc.oneof(
+    fc.dictionary(text, tie('value'), { maxKeys: 4 }),
+    fc.array(tie('value'), { maxLength: 4 })
+  ),
+}));
+
+// Prose around the answer never opens a container or a string
+const prose = fc.string({ unit: fc.constantFrom(...'Here is the data.! 42'.split('')) });
+
+// Prose before the answer may also cite sources, as in "see [1]"
+const leadingProse = fc.oneof(
+  prose,
+  fc.tuple(prose, fc.nat(99), prose).map(([a, n, b]) => `${a}see [${n}]${b}`)
+);
+
+// Prose between documents sits on its own line, since "[1] Here" reads as a citation
+const separators = fc.oneof(
+  fc.constantFrom('', ' ', '\n'),
+  prose.map((p) => `\n${p}\n`)
+);
+
+const repairOptions = { mode: 'repair' } as const;
+
+describe('JSON extraction', () => {
+  test('ignores brackets inside strings in parse mode', () => {
+    expect(parseFromLLM('Note: {"msg": "use } here"} done')).toEqual({ msg: 'use } here' });
+    expect(parseFromLLM('[{"a": "]"}, "[{"] trailing ]')).toEqual([{ a: ']' }, '[{']);
+  });
+
+  test('matches brackets ignoring a stray quote only when nothing else follows', () => {
+    const stray = parseFromLLMWithReport('Result: {"a": "b"c"} done', { mode: 'repair' });
+    expect(stray.data).toEqual({ a: 'b"c' });
+    expect(stray.report.span).toEqual({ start: 8, end: 20 });
+
+    const truncated = '{"a": "b}", "c": "d';
+    expect(() => parseFromLLM(truncated)).toThrow(NoJsonFoundError);
+    expect(parseFromLLM(truncated, { mode: 'repair' })).toEqual({ a: 'b}', c: 'd' });
+  });
+
+  test('extracts any document surrounded by prose', () => {
+    fc.assert(
+      fc.property(leadingProse, json, prose, (before, value, after) => {
+        const serialized = JSON.stringify(value);
+        const llmOutput = `${before}${serialized}${after}`;
+        const expected = JSON.parse(serialized);
+
+        expect(parseFromLLM(llmOutput)).toEqual(expected);
+        expect(parseFromLLM(llmOutput, repairOptions)).toEqual(expected);
+      })
+    );
+  });
+
+  test('parse and repair modes agree on where the document ends', () => {
+    fc.assert(
+      fc.property(leadingProse, json, prose, (before, value, after) => {
+        const llmOutput = `${before}${JSON.stringify(value, null, 2)}${after}`;
+        const parsed = parseFromLLMWithReport(llmOutput);
+        const repaired = parseFromLLMWithReport(llmOutput, repairOptions);
+
+        expect(repaired.report.span).toEqual(parsed.report.span);
+        expect(repaired.data).toEqual(parsed.data);
+      })
+    );
+  });
+
+  test('splits concatenated documents at their own closers', () => {
+    fc.assert(
+      fc.property(
+        fc.array(json, { minLength: 1, maxLength: 4 }),
+        separators,
+        (values, separator) => {
+          const llmOutput = values.map((value) => JSON.stringify(value)).join(separator);
+          const expected = values.map((value) => JSON.parse(JSON.stringify(value)));
+
+          expect(parseAllFromLLM(llmOutput)).toEqual(expected);
+        }
+      )
+    );
+  });
+
+  test('streams to the same value whatever the chunk boundaries', () => {
+    fc.assert(
+      fc.property(json, fc.integer({ min: 1, max: 8 }), (value, size) => {
+        const serialized = JSON.stringify(value);
+        const parser = createStreamingParser();
+        for (let i = 0; i < serialized.length; i += size) {
+          parser.push(serialized.slice(i, i + size));
+        }
+
+        expect(parser.end()).toEqual(JSON.parse(serialized));
+      }),
+      { numRuns: 30 }
+    );
+  });
+});
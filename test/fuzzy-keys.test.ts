@@ -0,0 +1,121 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+const CharacterSchema = z.object({
+  character: z.object({
+    name: z.string(),
+    favoriteBand: z.string(),
+    email: z.string(),
+    address: z.object({ zipCode: z.string() }),
+  }),
+});
+
+describe('fuzzy key matching', () => {
+  test('does nothing unless enabled', () => {
+    const llmOutput = '{"character": {"Name": "João"}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema: CharacterSchema });
+    expect(result).toEqual({ character: { Name: 'João' } });
+  });
+
+  test('renames case and separator variants at any depth', () => {
+    const llmOutput = `{"character": {
+      "Name": "João",
+      "favorite_band": "Legião Urbana",
+      "e-mail": "joao@example.com",
+      "address": {"ZIP_CODE": "01000"}
+    }}`;
+    const result = parseFromLLM(llmOutput, {
+      mode: 'repair',
+      schema: CharacterSchema,
+      fuzzyKeys: true,
+    });
+
+    expect(result).toEqual({
+      character: {
+        name: 'João',
+        favoriteBand: 'Legião Urbana',
+        email: 'joao@example.com',
+        address: { zipCode: '01000' },
+      },
+    });
+  });
+
+  test('renames keys of objects inside arrays', () => {
+    const schema = z.object({ items: z.array(z.object({ itemId: z.number() })) });
+    const llmOutput = '{"items": [{"item_id": 1}, {"ItemId": 2}]}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, fuzzyKeys: true });
+    expect(result).toEqual({ items: [{ itemId: 1 }, { itemId: 2 }] });
+  });
+
+  test('uses edit distance only when maxDistance is set', () => {
+    const schema = z.object({ address: z.string() });
+    const llmOutput = '{"adress": "Main St"}';
+
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema, fuzzyKeys: true })).toEqual({
+      adress: 'Main St',
+    });
+    expect(
+      parseFromLLM(llmOutput, { mode: 'repair', schema, fuzzyKeys: { maxDistance: 1 } })
+    ).toEqual({ address: 'Main St' });
+  });
+
+  test('never remaps ambiguous keys', () => {
+    // Two unknown keys claim the same expected key
+    const schema = z.object({ userName: z.string() });
+    const twoClaims = parseFromLLM('{"user_name": "a", "UserName": "b"}', {
+      mode: 'repair',
+      schema,
+      fuzzyKeys: true,
+    });
+    expect(twoClaims).toEqual({ user_name: 'a', UserName: 'b' });
+
+    // One unknown key is equally close to two expected keys
+    const tied = z.object({ cat: z.string(), car: z.string() });
+    const result = parseFromLLM('{"cab": "x"}', {
+      mode: 'repair',
+      schema: tied,
+      fuzzyKeys: { maxDistance: 1 },
+    });
+    expect(result).toEqual({ cab: 'x' });
+  });
+
+  test('does not overwrite a key that is already present', () => {
+    const schema = z.object({ name: z.string() });
+    const llmOutput = '{"name": "kept", "Name": "other"}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, fuzzyKeys: true });
+    expect(result).toEqual({ name: 'kept', Name: 'other' });
+  });
+
+  test('keeps a __proto__ key as an own property', () => {
+    const schema = z.object({ name: z.string() });
+    const llmOutput = '{"name": "x", "__proto__": {"isAdmin": true}}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, fuzzyKeys: true });
+
+    expect(Object.getPrototypeOf(result)).toBe(Object.prototype);
+    expect((result as Record<string, unknown>).isAdmin).toBeUndefined();
+    expect(Object.keys(result)).toEqual(['name', '__proto__']);
+  });
+
+  test('runs before coercion so renamed fields are coerced', () => {
+    const schema = z.object({ userAge: z.number() });
+    const result = parseFromLLM('{"user_age": "30"}', {
+      mode: 'repair',
+      schema,
+      fuzzyKeys: true,
+      coerce: true,
+    });
+    expect(result).toEqual({ userAge: 30 });
+  });
+
+  test('records renames with their JSON path in the report', () => {
+    const { report } = parseFromLLMWithReport('{"character": {"Name": "João"}}', {
+      mode: 'repair',
+      schema: CharacterSchema,
+      fuzzyKeys: true,
+    });
+    expect(report.repairs).toEqual([
+      { kind: 'key-rename', path: '$.character.Name', before: '"Name"', after: '"name"' },
+    ]);
+  });
+});
@@ -30,6 +30,13 @@ describe('hasPossibleJson', () => {
   test('returns false for only closing brace', () => {
     expect(hasPossibleJson('}')).toBe(false);
   });
+
+  test('counts arrays but not citations', () => {
+    expect(hasPossibleJson('ids: [1, 2]')).toBe(true);
+    expect(hasPossibleJson('[2]')).toBe(true);
+    expect(hasPossibleJson('see source [1]')).toBe(false);
+    expect(hasPossibleJson('See [1] and '.repeat(5000))).toBe(false);
+  });
 });
 
 describe('isJsonString', () => {
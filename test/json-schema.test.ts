@@ -0,0 +1,171 @@
+import { describe, test, expect } from 'vitest';
+import {
+  JsonSchema,
+  SchemaMismatchError,
+  parseAllFromLLM,
+  parseFromLLM,
+  parseFromLLMStrict,
+  parseFromLLMWithReport,
+} from '../src/index';
+
+const UserSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    user: {
+      type: 'object',
+      properties: {
+        name: { type: 'string' },
+        age: { type: 'integer' },
+        favoriteBand: { type: 'string' },
+      },
+      required: ['name'],
+    },
+  },
+  required: ['user'],
+};
+
+const ListSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    items: { type: 'array', items: { type: 'object', properties: { id: { type: 'number' } } } },
+  },
+  required: ['items'],
+};
+
+describe('JSON Schema support', () => {
+  test('wraps a missing root key', () => {
+    const result = parseFromLLM('{"name": "John", "age": 30, "favoriteBand": "Beatles"}', {
+      mode: 'repair',
+      schema: UserSchema,
+    });
+    expect(result).toEqual({ user: { name: 'John', age: 30, favoriteBand: 'Beatles' } });
+  });
+
+  test('renames a wrong root key and wraps bare arrays', () => {
+    const renamed = parseFromLLMWithReport('{"person": {"name": "John"}}', {
+      mode: 'repair',
+      schema: UserSchema,
+    });
+    expect(renamed.data).toEqual({ user: { name: 'John' } });
+    expect(renamed.report.repairs.map((r) => r.kind)).toEqual(['root-rename']);
+
+    const wrapped = parseFromLLM('Here: [{"id": 1}, {"id": 2}]', {
+      mode: 'repair',
+      schema: ListSchema,
+    });
+    expect(wrapped).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+  });
+
+  test('extracts the root kind the schema expects', () => {
+    const llmOutput = 'Note {"draft": true} then [1, 2]';
+    const schema: JsonSchema = { type: 'array', items: { type: 'number' } };
+    expect(parseFromLLM(llmOutput, { schema })).toEqual([1, 2]);
+  });
+
+  test('renames misnamed keys with fuzzyKeys', () => {
+    const result = parseFromLLM('{"user": {"Name": "John", "favorite_band": "Beatles"}}', {
+      mode: 'repair',
+      schema: UserSchema,
+      fuzzyKeys: true,
+    });
+    expect(result).toEqual({ user: { name: 'John', favoriteBand: 'Beatles' } });
+  });
+
+  test('coerces values, fills defaults and strips unknown keys', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        count: { type: 'number' },
+        done: { type: 'boolean' },
+        status: { enum: ['open', 'on hold'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        role: { type: 'string', default: 'member' },
+      },
+      additionalProperties: false,
+    };
+    const llmOutput = '{"count": "3", "done": "yes", "status": "On Hold", "tags": "a", "x": 1}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair', schema, coerce: true });
+
+    expect(result).toEqual({
+      count: 3,
+      done: true,
+      status: 'on hold',
+      tags: ['a'],
+      role: 'member',
+    });
+  });
+
+  test('picks the union member a value coerces into', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { value: { anyOf: [{ type: 'boolean' }, { type: 'null' }] } },
+    };
+    const result = parseFromLLM('{"value": "no"}', { mode: 'repair', schema, coerce: true });
+    expect(result).toEqual({ value: false });
+  });
+
+  test('returns the value when it validates', () => {
+    const data = parseFromLLMStrict('{"person": {"name": "John", "age": 30}}', UserSchema, {
+      mode: 'repair',
+    });
+    expect(data).toEqual({ user: { name: 'John', age: 30 } });
+  });
+
+  test('reports each failing keyword as an issue', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: {
+        id: { type: 'integer' },
+        status: { enum: ['open', 'closed'] },
+        tags: { type: 'array', items: { type: 'string' } },
+        note: { type: ['string', 'null'] },
+      },
+      required: ['id', 'name'],
+      additionalProperties: false,
+    };
+    const llmOutput = '{"id": 1.5, "status": "done", "tags": ["a", 2], "note": null, "extra": 1}';
+
+    let error: SchemaMismatchError | undefined;
+    try {
+      parseFromLLMStrict(llmOutput, schema);
+    } catch (e) {
+      error = e as SchemaMismatchError;
+    }
+
+    expect(error).toBeInstanceOf(SchemaMismatchError);
+    expect(error!.issues.map((issue) => [issue.path.join('.'), issue.code])).toEqual([
+      ['name', 'invalid_type'],
+      ['id', 'invalid_type'],
+      ['status', 'invalid_enum_value'],
+      ['tags.1', 'invalid_type'],
+      ['', 'unrecognized_keys'],
+    ]);
+    expect(error!.message).toContain('id: Expected integer, received number');
+    expect(error!.data).toEqual(JSON.parse(llmOutput));
+  });
+
+  test('validates records and unions', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      additionalProperties: { anyOf: [{ type: 'number' }, { type: 'string' }] },
+    };
+    expect(parseFromLLMStrict('{"a": 1, "b": "x"}', schema)).toEqual({ a: 1, b: 'x' });
+    expect(() => parseFromLLMStrict('{"a": true}', schema)).toThrow('a: Invalid input');
+  });
+
+  test('validates and skips items in parseAllFromLLM', () => {
+    const schema: JsonSchema = {
+      type: 'object',
+      properties: { id: { type: 'number' } },
+      required: ['id'],
+    };
+    const llmOutput = '{"id": 1}\n{"name": "x"}\n{"id": 3}';
+    expect(parseAllFromLLM(llmOutput, { schema, validate: 'skip' })).toEqual([
+      { id: 1 },
+      { id: 3 },
+    ]);
+    expect(() => parseAllFromLLM(llmOutput, { schema, validate: 'throw' })).toThrow(
+      SchemaMismatchError
+    );
+  });
+});
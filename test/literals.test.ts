@@ -0,0 +1,89 @@
+import { describe, test, expect } from 'vitest';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('literal normalization', () => {
+  test('leaves constant-like words inside strings alone', () => {
+    const llmOutput = '{"note": "ratio: none left", "flag": "set: TRUE", "done": tru}';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ note: 'ratio: none left', flag: 'set: TRUE', done: true });
+    expect(report.repairs).toEqual([
+      { kind: 'constant', offset: 56, before: ': tru', after: ': true' },
+    ]);
+  });
+
+  test('leaves bare keys named like constants alone', () => {
+    const llmOutput = '{none: None, True: False}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ none: null, True: false });
+  });
+
+  test('normalizes Python literals inside arrays', () => {
+    const llmOutput = 'Flags: [True, False, None, nul]';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual([true, false, null, null]);
+    expect(report.repairs).toEqual([
+      { kind: 'constant', offset: 7, before: '[True', after: '[true' },
+      { kind: 'constant', offset: 12, before: ', False', after: ', false' },
+      { kind: 'constant', offset: 19, before: ', None', after: ', null' },
+      { kind: 'constant', offset: 25, before: ', nul', after: ', null' },
+    ]);
+  });
+
+  test('maps NaN, Infinity and undefined to null by default', () => {
+    const llmOutput = '{"a": NaN, "b": [Infinity, -Infinity], "c": undefined}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      a: null,
+      b: [null, null],
+      c: null,
+    });
+  });
+
+  test('maps special literals through specialValues', () => {
+    const llmOutput = '{"a": NaN, "b": Infinity, "c": -Infinity, "d": undefined}';
+    const result = parseFromLLM(llmOutput, {
+      mode: 'repair',
+      specialValues: { NaN: 0, Infinity: 'inf', '-Infinity': '-inf' },
+    });
+    expect(result).toEqual({ a: 0, b: 'inf', c: '-inf', d: null });
+  });
+
+  test('converts single-quoted strings', () => {
+    const llmOutput = `{'name': 'O\\'Brien', 'quote': 'say "hi"', "ok": 'yes'}`;
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ name: "O'Brien", quote: 'say "hi"', ok: 'yes' });
+    expect(report.repairs).toContainEqual({
+      kind: 'single-quote',
+      offset: 9,
+      before: "'O\\'Brien'",
+      after: '"O\'Brien"',
+    });
+    expect(report.repairs.filter((r) => r.kind === 'single-quote')).toHaveLength(5);
+  });
+
+  test('parses a Python dict repr', () => {
+    const llmOutput = "Result: {'a': True, 'b': None, 'c': [1, 'x', False]}";
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      a: true,
+      b: null,
+      c: [1, 'x', false],
+    });
+  });
+
+  test('leaves apostrophes in prose and strings alone', () => {
+    const llmOutput = `Here's the data: {"text": "it's 'fine'"} and that's it`;
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ text: "it's 'fine'" });
+    expect(report.repairs).toEqual([]);
+  });
+
+  test('normalizes each document of a multi-document answer', () => {
+    const llmOutput = "{'id': 1, 'ok': True}\n{'id': 2, 'ok': None}";
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      { id: 1, ok: true },
+      { id: 2, ok: null },
+    ]);
+  });
+});
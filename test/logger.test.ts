@@ -0,0 +1,92 @@
+import { describe, test, expect, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { configure, consoleLogger, parseFromLLM } from '../src/index';
+import type { LogEvent } from '../src/index';
+
+const schema = z.object({
+  user: z.object({ name: z.string() }),
+});
+
+function collect() {
+  const events: LogEvent[] = [];
+  return { events, logger: (event: LogEvent) => events.push(event) };
+}
+
+describe('logging', () => {
+  afterEach(() => {
+    configure({ logger: consoleLogger, logLevel: 'warn' });
+    vi.restoreAllMocks();
+  });
+
+  test('sends structured root fix events to the per-call logger', () => {
+    const { events, logger } = collect();
+    parseFromLLM('{"person": {"name": "John"}}', {
+      mode: 'repair',
+      schema,
+      logger,
+      logLevel: 'info',
+    });
+
+    expect(events).toEqual([
+      {
+        level: 'info',
+        event: 'root.renamed',
+        message: 'Renamed root key "person" → "user"',
+        details: { from: 'person', to: 'user' },
+      },
+    ]);
+  });
+
+  test('filters events below the configured level', () => {
+    const { events, logger } = collect();
+    parseFromLLM('{"name": "John"}', { mode: 'repair', schema, logger });
+    expect(events).toEqual([]);
+
+    parseFromLLM('{"error": "oops"}', { mode: 'repair', schema, logger });
+    expect(events.map((e) => e.event)).toEqual(['root.unfixed']);
+  });
+
+  test('logs repair pipeline events at debug level', () => {
+    const { events, logger } = collect();
+    parseFromLLM('Draft: {::} Final: {flag: tru}', { mode: 'repair', logger, logLevel: 'debug' });
+
+    expect(events.map((e) => e.event)).toEqual([
+      'repair.constant',
+      'repair.candidate-rejected',
+      'repair.jsonrepair',
+    ]);
+    expect(events[0]!.details).toEqual({ offset: 24, before: ': tru', after: ': true' });
+  });
+
+  test('silent level disables logging', () => {
+    const { events, logger } = collect();
+    parseFromLLM('{"error": "oops"}', { mode: 'repair', schema, logger, logLevel: 'silent' });
+    expect(events).toEqual([]);
+  });
+
+  test('configure() sets global defaults that per-call options override', () => {
+    const global = collect();
+    const local = collect();
+    configure({ logger: global.logger, logLevel: 'info' });
+
+    parseFromLLM('{"name": "John"}', { mode: 'repair', schema });
+    expect(global.events.map((e) => e.event)).toEqual(['root.wrapped']);
+
+    parseFromLLM('{"name": "John"}', { mode: 'repair', schema, logger: local.logger });
+    expect(local.events.map((e) => e.event)).toEqual(['root.wrapped']);
+    expect(global.events).toHaveLength(1);
+  });
+
+  test('default console logger only prints warnings', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    parseFromLLM('{"name": "John"}', { mode: 'repair', schema });
+    expect(log).not.toHaveBeenCalled();
+
+    parseFromLLM('{"error": "oops"}', { mode: 'repair', schema });
+    expect(warn).toHaveBeenCalledWith(
+      '❌ json-llm-repair: Could not fix root key mismatch for "user"'
+    );
+  });
+});
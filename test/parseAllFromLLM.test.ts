@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { JsonSyntaxError, SchemaMismatchError, parseAllFromLLM } from '../src/index';
+
+describe('parseAllFromLLM', () => {
+  test('returns every concatenated document in order', () => {
+    const llmOutput = '{"id": 1}{"id": 2}{"id": 3}';
+    expect(parseAllFromLLM(llmOutput)).toEqual([{ id: 1 }, { id: 2 }, { id: 3 }]);
+  });
+
+  test('parses NDJSON / JSON Lines', () => {
+    const llmOutput = '{"id": 1, "tags": ["a"]}\n{"id": 2, "tags": []}\n[3, 4]\n';
+    expect(parseAllFromLLM(llmOutput)).toEqual([
+      { id: 1, tags: ['a'] },
+      { id: 2, tags: [] },
+      [3, 4],
+    ]);
+  });
+
+  test('does not return citation brackets as documents', () => {
+    expect(parseAllFromLLM('Result [1]:\n{"id": 1}')).toEqual([{ id: 1 }]);
+    expect(parseAllFromLLM('{"id": 1}\n[2]\n{"id": 3}')).toEqual([{ id: 1 }, [2], { id: 3 }]);
+  });
+
+  test('does not return nested objects as separate documents', () => {
+    const llmOutput = 'First: {"user": {"name": "A"}} Second: {"user": {"name": "B"}}';
+    expect(parseAllFromLLM(llmOutput)).toEqual([{ user: { name: 'A' } }, { user: { name: 'B' } }]);
+  });
+
+  test('throws on a document that does not parse in parse mode', () => {
+    const llmOutput = '{"id": 1}\n{id: 2}\n{"id": 3}';
+    expect(() => parseAllFromLLM(llmOutput)).toThrow(JsonSyntaxError);
+    expect(() => parseAllFromLLM(llmOutput)).toThrow('line 2, column 2');
+    expect(parseAllFromLLM(llmOutput, { dialect: 'json5' })).toEqual([
+      { id: 1 },
+      { id: 2 },
+      { id: 3 },
+    ]);
+  });
+
+  test('repairs each document on its own in repair mode', () => {
+    const llmOutput = '{"id": 1}\n{id: 2, ok: tru}\n{"id": 3,}';
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      { id: 1 },
+      { id: 2, ok: true },
+      { id: 3 },
+    ]);
+  });
+
+  test('closes a truncated last document in repair mode', () => {
+    const llmOutput = '{"id": 1}\n{"id": 2, "name": "B';
+    expect(() => parseAllFromLLM(llmOutput)).toThrow(JsonSyntaxError);
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      { id: 1 },
+      { id: 2, name: 'B' },
+    ]);
+  });
+
+  test('applies schema fixes to each item in repair mode', () => {
+    const schema = z.object({ user: z.object({ name: z.string(), age: z.number() }) });
+    const llmOutput = '{"name": "A", "age": "1"}\n{"person": {"name": "B", "age": 2}}';
+    const result = parseAllFromLLM(llmOutput, { mode: 'repair', schema, coerce: true });
+    expect(result).toEqual([{ user: { name: 'A', age: 1 } }, { user: { name: 'B', age: 2 } }]);
+  });
+
+  test('skips items that fail validation with validate: skip', () => {
+    const schema = z.object({ id: z.number() });
+    const llmOutput = 'Example: {"example": true} Answer: {"id": 1} {"id": 2}';
+    expect(parseAllFromLLM(llmOutput, { schema, validate: 'skip' })).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+  });
+
+  test('throws SchemaMismatchError with validate: throw', () => {
+    const schema = z.object({ id: z.number() });
+    const llmOutput = '{"id": 1} {"id": "two"}';
+    expect(() => parseAllFromLLM(llmOutput, { schema, validate: 'throw' })).toThrow(
+      SchemaMismatchError
+    );
+  });
+
+  test('throws when no JSON is found', () => {
+    expect(() => parseAllFromLLM('No JSON here')).toThrow('No JSON found');
+    expect(() => parseAllFromLLM('{id: 1}')).toThrow(JsonSyntaxError);
+    expect(() => parseAllFromLLM('{id: 1}', { mode: 'repair' })).not.toThrow();
+  });
+});
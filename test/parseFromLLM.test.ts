@@ -353,6 +353,87 @@ describe('parseFromLLM', () => {
     });
   });
 
+  describe('root arrays and scalars', () => {
+    test('parses a bare array in parse mode', () => {
+      const llmOutput = '[{"id": 1}, {"id": 2}]';
+      const result = parseFromLLM(llmOutput);
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('extracts an array surrounded by text in parse mode', () => {
+      const llmOutput = 'Here are the tags: ["a", "b"]';
+      const result = parseFromLLM(llmOutput);
+      expect(result).toEqual(['a', 'b']);
+    });
+
+    test('extracts an array surrounded by text in repair mode', () => {
+      const llmOutput = 'Here are the tags: ["a", "b"] Enjoy!';
+      const result = parseFromLLM(llmOutput, { mode: 'repair' });
+      expect(result).toEqual(['a', 'b']);
+    });
+
+    test('repairs a broken root array', () => {
+      const llmOutput = '[{id: 1}, {id: 2},]';
+      const result = parseFromLLM(llmOutput, { mode: 'repair' });
+      expect(result).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('does not mistake bracketed prose for an array', () => {
+      const llmOutput = 'See [the docs] for details: {"name": "John"}';
+      const result = parseFromLLM(llmOutput, { mode: 'repair' });
+      expect(result).toEqual({ name: 'John' });
+    });
+
+    test('does not mistake citations or indexes for an array without a schema', () => {
+      const cited = 'According to the docs [2], the answer is:\n{"ok": true}';
+      expect(parseFromLLM(cited)).toEqual({ ok: true });
+      expect(parseFromLLM(cited, { mode: 'repair' })).toEqual({ ok: true });
+      expect(parseFromLLM('Use arr[0] to get it: {"a":1}', { mode: 'repair' })).toEqual({ a: 1 });
+    });
+
+    test('keeps a single-element array when nothing else follows', () => {
+      expect(parseFromLLM('The ids are: [2]')).toEqual([2]);
+      expect(parseFromLLM('Per [1], the ids are: [2, 3]', { mode: 'repair' })).toEqual([2, 3]);
+    });
+
+    test('handles long citation lists in linear time', () => {
+      const cited = 'See [1] and '.repeat(5000) + '{"a": 1}';
+      const sources = Array.from({ length: 5000 }, (_, i) => `source [${i}]`).join(', ');
+
+      const start = Date.now();
+      expect(parseFromLLM(cited)).toEqual({ a: 1 });
+      expect(parseFromLLM(cited, { mode: 'repair' })).toEqual({ a: 1 });
+      expect(parseFromLLM(`{"answer": 42}\nSources: ${sources}`)).toEqual({ answer: 42 });
+      expect(Date.now() - start).toBeLessThan(2000);
+    });
+
+    test('prefers the object when schema expects an object', () => {
+      const schema = z.object({ name: z.string() });
+      const llmOutput = 'Sources [1]: {"name": "John"}';
+      expect(parseFromLLM(llmOutput, { schema })).toEqual({ name: 'John' });
+      expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual({ name: 'John' });
+    });
+
+    test('prefers the array when schema expects an array', () => {
+      const schema = z.array(z.object({ id: z.number() }));
+      const llmOutput = 'Example: {"id": 0}. Answer: [{"id": 1}, {"id": 2}]';
+      expect(parseFromLLM(llmOutput, { schema })).toEqual([{ id: 1 }, { id: 2 }]);
+      expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual([{ id: 1 }, { id: 2 }]);
+    });
+
+    test('wraps a bare array in the expected root key', () => {
+      const schema = z.object({ items: z.array(z.object({ id: z.number() })) });
+      const llmOutput = '[{"id": 1}, {"id": 2}]';
+      const result = parseFromLLM(llmOutput, { mode: 'repair', schema });
+      expect(result).toEqual({ items: [{ id: 1 }, { id: 2 }] });
+    });
+
+    test('parses a bare scalar answer', () => {
+      expect(parseFromLLM('42')).toBe(42);
+      expect(parseFromLLM(' "yes" ', { mode: 'repair' })).toBe('yes');
+    });
+  });
+
   describe('mode parameter', () => {
     test('uses parse mode when mode is explicitly set to "parse"', () => {
       const llmOutput = '{"name": "John"}';
@@ -0,0 +1,130 @@
+import { describe, test, expect } from 'vitest';
+import {
+  DEFAULT_STRATEGIES,
+  RepairFailedError,
+  RepairStrategy,
+  parseFromLLM,
+  parseFromLLMWithReport,
+  parseAllFromLLM,
+  registerRepairStrategy,
+} from '../src/index';
+
+// A model that writes `=>` instead of `:` between keys and values
+const arrows: RepairStrategy = {
+  name: 'arrows',
+  stage: 'preprocess',
+  preprocess: (text, { record }) =>
+    text.replace(/"\s*=>/g, (match, offset: number) => {
+      record({ offset, before: match, after: '":' });
+      return '":';
+    }),
+};
+
+describe('repair strategies', () => {
+  test('runs the built-ins in their default order', () => {
+    expect(DEFAULT_STRATEGIES).toEqual([
+      'constants',
+      'split-records',
+      'candidate',
+      'first-complete',
+      'json',
+      'dialect',
+      'quotes',
+      'jsonrepair',
+      'decode-strings',
+    ]);
+
+    const llmOutput = 'Result: {"flag": tru}';
+    const options = { mode: 'repair', strategies: [...DEFAULT_STRATEGIES] } as const;
+    expect(parseFromLLM(llmOutput, options)).toEqual(parseFromLLM(llmOutput, { mode: 'repair' }));
+  });
+
+  test('skips built-ins that are left out', () => {
+    const strategies = DEFAULT_STRATEGIES.filter((name) => name !== 'jsonrepair');
+
+    expect(parseFromLLM('{"a": 1}', { mode: 'repair', strategies })).toEqual({ a: 1 });
+    expect(() => parseFromLLM('{a: 1}', { mode: 'repair', strategies })).toThrow(RepairFailedError);
+  });
+
+  test('runs a cheaper subset', () => {
+    const strategies = ['candidate', 'json', 'jsonrepair'];
+    const { data, report } = parseFromLLMWithReport('Here: {name: "John", flag: true,}', {
+      mode: 'repair',
+      strategies,
+    });
+
+    expect(data).toEqual({ name: 'John', flag: true });
+    expect(report.repairs.map((r) => r.kind)).toEqual(['jsonrepair']);
+  });
+
+  test('records custom pre-processor edits at their input offsets', () => {
+    const llmOutput = 'Answer: {"name" => "John", "age" => 30}';
+    const { data, report } = parseFromLLMWithReport(llmOutput, {
+      mode: 'repair',
+      strategies: [arrows, ...DEFAULT_STRATEGIES],
+    });
+
+    expect(data).toEqual({ name: 'John', age: 30 });
+    expect(report.repairs).toEqual([
+      { kind: 'custom', strategy: 'arrows', offset: 14, before: '" =>', after: '":' },
+      { kind: 'custom', strategy: 'arrows', offset: 31, before: '" =>', after: '":' },
+    ]);
+  });
+
+  test('tries custom parsers in order and reports custom extractors', () => {
+    const keyValue: RepairStrategy = {
+      name: 'key-value',
+      stage: 'parse',
+      parse: (text) => {
+        const pairs = text.slice(1, -1).split(';');
+        return Object.fromEntries(pairs.map((pair) => pair.split('=').map((s) => s.trim())));
+      },
+    };
+    const whole: RepairStrategy = {
+      name: 'whole',
+      stage: 'extract',
+      extract: (text) => [{ text, start: 0 }],
+    };
+
+    const { data, report } = parseFromLLMWithReport('Config: {a = 1; b = 2}', {
+      mode: 'repair',
+      strategies: [whole, 'json', keyValue],
+    });
+    expect(data).toEqual({ a: '1', b: '2' });
+    expect(report.strategy).toBe('whole');
+  });
+
+  test('runs post-processors on the parsed value', () => {
+    const trim: RepairStrategy = {
+      name: 'trim',
+      stage: 'postprocess',
+      postprocess: (value) =>
+        JSON.parse(JSON.stringify(value), (_key, v) => (typeof v === 'string' ? v.trim() : v)),
+    };
+
+    const llmOutput = '{"name": "  John "}\n{"name": "Ann  "}';
+    expect(
+      parseFromLLM(llmOutput, { mode: 'repair', strategies: ['candidate', 'json', trim] })
+    ).toEqual({ name: 'John' });
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair', strategies: ['json', trim] })).toEqual([
+      { name: 'John' },
+      { name: 'Ann' },
+    ]);
+  });
+
+  test('throws on unknown strategy names', () => {
+    expect(() => parseFromLLM('{}', { mode: 'repair', strategies: ['nope'] })).toThrow(
+      'Unknown repair strategy "nope"'
+    );
+  });
+
+  test('runs registered strategies by default and by name', () => {
+    registerRepairStrategy(arrows);
+    const llmOutput = '{"name" => "John"}';
+
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ name: 'John' });
+    expect(
+      parseFromLLM(llmOutput, { mode: 'repair', strategies: ['arrows', 'candidate', 'json'] })
+    ).toEqual({ name: 'John' });
+  });
+});
@@ -0,0 +1,74 @@
+import { describe, test, expect } from 'vitest';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('unescaped quote repair', () => {
+  test('handles unescaped quotes in Portuguese text with accents', () => {
+    const llmOutput = '{"text": "A pergunta é sobre "cajuzinho", que parece ser um doce."}';
+    const result = parseFromLLM(llmOutput, { mode: 'repair' });
+    expect(result).toEqual({
+      text: 'A pergunta é sobre "cajuzinho", que parece ser um doce.',
+    });
+  });
+
+  test('handles Spanish, CJK and emoji around the quotes', () => {
+    const llmOutput = `{
+      "es": "Él dijo "¡hola!", y se fue",
+      "ja": "彼は"こんにちは"と言った",
+      "emoji": "Marked as "🔥 hot", then "✅ done"",
+      "next": 1
+    }`;
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      es: 'Él dijo "¡hola!", y se fue',
+      ja: '彼は"こんにちは"と言った',
+      emoji: 'Marked as "🔥 hot", then "✅ done"',
+      next: 1,
+    });
+  });
+
+  test('closes a string when a comma is followed by the next key', () => {
+    const llmOutput = '{"a": "Ele "disse", "b": "ok"}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ a: 'Ele "disse', b: 'ok' });
+  });
+
+  test('uses the next value to decide inside arrays', () => {
+    const llmOutput = '["o "doce", não", "ok", "fim "ponto""]';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      'o "doce", não',
+      'ok',
+      'fim "ponto"',
+    ]);
+  });
+
+  test('keeps quotes in keys when the colon has not come yet', () => {
+    const llmOutput = '{"o "doce" favorito": "cajuzinho"}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      'o "doce" favorito': 'cajuzinho',
+    });
+  });
+
+  test('leaves other syntax errors to jsonrepair', () => {
+    const llmOutput = '{name: "Café "forte"", tags: ["a", "b",]}';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      name: 'Café "forte"',
+      tags: ['a', 'b'],
+    });
+  });
+
+  test('repairs quotes in every document with parseAllFromLLM', () => {
+    const llmOutput = '{"t": "um "doce""}\n{"t": "dois"}';
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      { t: 'um "doce"' },
+      { t: 'dois' },
+    ]);
+  });
+
+  test('records escaped quotes with their source offsets', () => {
+    const llmOutput = 'Resposta: {"t": "é "doce" sim"}';
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+    expect(report.repairs).toEqual([
+      { kind: 'quote-escape', offset: llmOutput.indexOf('"doce'), before: '"', after: '\\"' },
+      { kind: 'quote-escape', offset: llmOutput.indexOf('" sim'), before: '"', after: '\\"' },
+    ]);
+    expect(report.usedJsonRepair).toBe(false);
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('reasoning tags', () => {
+  test('ignores draft JSON inside <think> blocks', () => {
+    const llmOutput = `<think>
+The user wants a name. Draft: {"name": "draft"}
+</think>
+{"name": "John"}`;
+    expect(parseFromLLM(llmOutput)).toEqual({ name: 'John' });
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ name: 'John' });
+  });
+
+  test('strips every built-in tag, case-insensitively and with attributes', () => {
+    const llmOutput =
+      '<Reasoning effort="high">{"a": 0}</Reasoning><thinking>{"a": 0}</thinking>{"a": 1}';
+    expect(parseFromLLM(llmOutput)).toEqual({ a: 1 });
+  });
+
+  test('hides everything before a closing tag without an opener', () => {
+    // Chat templates often put the opening <think> in the prompt
+    const llmOutput = 'Let me try {"id": 0} first.</think>\n{"id": 1}';
+    expect(parseFromLLM(llmOutput)).toEqual({ id: 1 });
+  });
+
+  test('does not parse JSON from an unclosed reasoning block', () => {
+    const llmOutput = '<think>Maybe {"id": 0} is right';
+    expect(() => parseFromLLM(llmOutput, { mode: 'repair' })).toThrow('No JSON found');
+  });
+
+  test('can be disabled', () => {
+    const llmOutput = '<think>{"id": 0}</think>{"id": 1}';
+    expect(parseFromLLM(llmOutput, { stripReasoning: false })).toEqual({ id: 0 });
+  });
+
+  test('accepts extra tag names and patterns', () => {
+    const llmOutput = '<analysis>{"id": 0}</analysis> [draft]{"id": 2}[/draft] {"id": 1}';
+    const result = parseFromLLM(llmOutput, {
+      stripReasoning: { tags: ['analysis', /\[draft\][\s\S]*?\[\/draft\]/] },
+    });
+    expect(result).toEqual({ id: 1 });
+  });
+
+  test('limits extraction to the answer tag', () => {
+    const llmOutput = 'Example: {"id": 0}\n<answer>{"id": 1}</answer>\nThanks!';
+    expect(parseFromLLM(llmOutput, { stripReasoning: { answerTag: 'answer' } })).toEqual({ id: 1 });
+  });
+
+  test('ignores answer tags inside reasoning and falls back when none are present', () => {
+    const schema = z.object({ id: z.number() });
+    const inReasoning = '<think><json>{"id": 0}</json></think> {"id": 1}';
+    expect(parseFromLLM(inReasoning, { schema, stripReasoning: { answerTag: 'json' } })).toEqual({
+      id: 1,
+    });
+    expect(parseFromLLM('{"id": 2}', { stripReasoning: { answerTag: 'json' } })).toEqual({ id: 2 });
+  });
+
+  test('keeps tags that sit inside JSON string values', () => {
+    const note = '{"note": "wrap drafts in <think> tags", "ok": true}';
+    expect(parseFromLLM(note)).toEqual({ note: 'wrap drafts in <think> tags', ok: true });
+    expect(parseFromLLM(note, { mode: 'repair' })).toEqual({
+      note: 'wrap drafts in <think> tags',
+      ok: true,
+    });
+
+    const html = '{"html": "<thinking>x</thinking>"}';
+    expect(parseFromLLM(html)).toEqual({ html: '<thinking>x</thinking>' });
+  });
+
+  test('strips reasoning around an answer whose strings mention the tags', () => {
+    const llmOutput = '<think>Draft: {"a": 0}</think>\n{"a": "see </think> and <answer>"}';
+    expect(parseFromLLM(llmOutput)).toEqual({ a: 'see </think> and <answer>' });
+    expect(
+      parseFromLLM(llmOutput, { stripReasoning: { tags: [/<answer>/], answerTag: 'answer' } })
+    ).toEqual({ a: 'see </think> and <answer>' });
+  });
+
+  test('reports spans relative to the original text', () => {
+    const llmOutput = '<think>{"a": 0}</think>{"a": 1}';
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+    expect(report.span).toEqual({ start: 23, end: llmOutput.length });
+  });
+});
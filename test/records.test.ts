@@ -0,0 +1,100 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('merged array elements', () => {
+  test('handles array items missing closing braces', () => {
+    const llmOutput = '[{"name": "Alice", {"name": "Bob"}]';
+    const result = parseFromLLM(llmOutput, { mode: 'repair' });
+    expect(result).toEqual([{ name: 'Alice' }, { name: 'Bob' }]);
+  });
+
+  test('handles array with duplicate attributes across unclosed objects', () => {
+    const llmOutput = '[{"id": 1, "name": "A", "id": 2, "name": "B"}]';
+    const result = parseFromLLM(llmOutput, { mode: 'repair' });
+    expect(result).toEqual([
+      { id: 1, name: 'A' },
+      { id: 2, name: 'B' },
+    ]);
+  });
+
+  test('splits long runs and keeps neighbouring elements', () => {
+    const llmOutput = `{"items": [
+      {"id": 1, "tags": ["x"], "id": 2, "tags": [], "id": 3, "tags": ["y", "z"]},
+      {"id": 4, "tags": []}
+    ]}`;
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({
+      items: [
+        { id: 1, tags: ['x'] },
+        { id: 2, tags: [] },
+        { id: 3, tags: ['y', 'z'] },
+        { id: 4, tags: [] },
+      ],
+    });
+  });
+
+  test('does not split on a repeated key that is not the first key', () => {
+    const llmOutput = '[{"id": 1, "tag": "a", "tag": "b"}]';
+    expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual([{ id: 1, tag: 'b' }]);
+  });
+
+  test('does not split objects outside arrays or keys inside strings', () => {
+    expect(parseFromLLM('{"id": 1, "id": 2}', { mode: 'repair' })).toEqual({ id: 2 });
+    expect(parseFromLLM('[{"id": 1, "note": "\\"id\\": 2"}]', { mode: 'repair' })).toEqual([
+      { id: 1, note: '"id": 2' },
+    ]);
+  });
+
+  test('leaves parse mode untouched', () => {
+    const llmOutput = '[{"id": 1, "id": 2}]';
+    expect(parseFromLLM(llmOutput)).toEqual([{ id: 2 }]);
+  });
+
+  test('only splits when the item schema declares the key', () => {
+    const records = z.object({ rows: z.array(z.object({ id: z.number(), name: z.string() })) });
+    const maps = z.object({ rows: z.array(z.record(z.number())) });
+    const llmOutput = '{"rows": [{"id": 1, "name": "A", "id": 2, "name": "B"}]}';
+
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema: records })).toEqual({
+      rows: [
+        { id: 1, name: 'A' },
+        { id: 2, name: 'B' },
+      ],
+    });
+    expect(parseFromLLM('{"rows": [{"a": 1, "a": 2}]}', { mode: 'repair', schema: maps })).toEqual({
+      rows: [{ a: 2 }],
+    });
+  });
+
+  test('does not split on keys inherited from Object.prototype', () => {
+    const schema = z.array(z.object({ a: z.number() }));
+    const llmOutput = '[{"constructor": 1, "a": 2, "constructor": 3}]';
+
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual([{ constructor: 3, a: 2 }]);
+  });
+
+  test('follows the schema through a missing root key', () => {
+    const schema = z.object({ users: z.array(z.object({ id: z.number() })) });
+    const llmOutput = '[{"id": 1, "id": 2}]';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema })).toEqual({
+      users: [{ id: 1 }, { id: 2 }],
+    });
+  });
+
+  test('splits records in every document with parseAllFromLLM', () => {
+    const llmOutput = '[{"id": 1, "id": 2}]\n[{"id": 3}]';
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair' })).toEqual([
+      [{ id: 1 }, { id: 2 }],
+      [{ id: 3 }],
+    ]);
+  });
+
+  test('records each split with its source offset', () => {
+    const llmOutput = 'Rows: [{"id": 1, "id": 2}]';
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+    expect(report.repairs).toEqual([
+      { kind: 'record-split', offset: llmOutput.indexOf(','), before: ',', after: '},{' },
+    ]);
+    expect(report.span).toEqual({ start: 6, end: llmOutput.length });
+  });
+});
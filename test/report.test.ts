@@ -0,0 +1,103 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('parseFromLLMWithReport', () => {
+  test('reports clean JSON with high confidence', () => {
+    const llmOutput = 'Sure! Here is the data: {"name": "John"} Hope this helps!';
+    const { data, report } = parseFromLLMWithReport(llmOutput);
+
+    expect(data).toEqual({ name: 'John' });
+    expect(report).toEqual({
+      mode: 'parse',
+      repairs: [],
+      span: { start: 24, end: 40 },
+      candidatesTried: 1,
+      strategy: 'first-complete',
+      usedJsonRepair: false,
+      confidence: 'high',
+      truncated: false,
+      truncation: null,
+    });
+    expect(llmOutput.slice(report.span!.start, report.span!.end)).toBe('{"name": "John"}');
+  });
+
+  test('returns the same data as parseFromLLM', () => {
+    const llmOutput = 'Here: {name: "John", age: 30,}';
+    const { data } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+    expect(data).toEqual(parseFromLLM(llmOutput, { mode: 'repair' }));
+  });
+
+  test('records jsonrepair usage with before/after snippets', () => {
+    const llmOutput = 'Here: {name: "John"}';
+    const { report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(report.usedJsonRepair).toBe(true);
+    expect(report.strategy).toBe('candidate');
+    expect(report.repairs).toEqual([
+      { kind: 'jsonrepair', offset: 6, before: '{name: "John"}', after: '{"name": "John"}' },
+    ]);
+    expect(report.confidence).toBe('medium');
+  });
+
+  test('records constant rewrites with their offset in the input', () => {
+    const llmOutput = 'Result: {"flag": tru, "value": none}';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ flag: true, value: null });
+    expect(report.repairs.filter((r) => r.kind === 'constant')).toEqual([
+      { kind: 'constant', offset: 15, before: ': tru', after: ': true' },
+      { kind: 'constant', offset: 29, before: ': none', after: ': null' },
+    ]);
+    expect(report.span).toEqual({ start: 8, end: llmOutput.length });
+  });
+
+  test('counts candidates tried before one parses', () => {
+    const llmOutput = 'Draft: {::} Final: {"b": 2}';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ b: 2 });
+    expect(report.candidatesTried).toBe(2);
+    expect(llmOutput.slice(report.span!.start, report.span!.end)).toBe('{"b": 2}');
+  });
+
+  test('records root key renames and wraps', () => {
+    const schema = z.object({ user: z.object({ name: z.string() }) });
+
+    const renamed = parseFromLLMWithReport('{"person": {"name": "John"}}', {
+      mode: 'repair',
+      schema,
+    });
+    expect(renamed.report.repairs).toEqual([
+      {
+        kind: 'root-rename',
+        path: '$',
+        before: '{"person":{"name":"John"}}',
+        after: '{"user":{"name":"John"}}',
+      },
+    ]);
+
+    const wrapped = parseFromLLMWithReport('{"name": "John"}', { mode: 'repair', schema });
+    expect(wrapped.data).toEqual({ user: { name: 'John' } });
+    expect(wrapped.report.repairs.map((r) => r.kind)).toEqual(['root-wrap']);
+    expect(wrapped.report.confidence).toBe('medium');
+  });
+
+  test('reports low confidence for heavy repairs', () => {
+    const llmOutput = '{flag: TRUE, other: nil, value: nul, name: "x"';
+    const { report } = parseFromLLMWithReport(`${llmOutput}}`, { mode: 'repair' });
+    expect(report.repairs.length).toBeGreaterThanOrEqual(3);
+    expect(report.confidence).toBe('low');
+  });
+
+  test('reports bare scalars', () => {
+    const { data, report } = parseFromLLMWithReport('  42 ');
+    expect(data).toBe(42);
+    expect(report.strategy).toBe('scalar');
+    expect(report.span).toEqual({ start: 2, end: 4 });
+  });
+
+  test('throws like parseFromLLM when no JSON is found', () => {
+    expect(() => parseFromLLMWithReport('No JSON here')).toThrow('No JSON found');
+  });
+});
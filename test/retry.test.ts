@@ -0,0 +1,80 @@
+import { describe, test, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { SchemaMismatchError, buildCorrectionPrompt, parseWithRetry } from '../src/index';
+
+const UserSchema = z.object({ name: z.string(), age: z.number() });
+
+describe('parseWithRetry', () => {
+  test('returns without calling fix when the first output parses', async () => {
+    const fix = vi.fn(async () => '');
+    const result = await parseWithRetry('Sure: {name: "Ana", age: 30,}', {
+      schema: UserSchema,
+      fix,
+    });
+    expect(result).toEqual({ name: 'Ana', age: 30 });
+    expect(fix).not.toHaveBeenCalled();
+  });
+
+  test('sends the Zod issues and the failed output, then parses the fix', async () => {
+    const fix = vi.fn(async () => '{"name": "Ana", "age": 30}');
+    const llmOutput = '{"name": "Ana", "age": "thirty"}';
+    const result = await parseWithRetry(llmOutput, { schema: UserSchema, fix });
+
+    expect(result).toEqual({ name: 'Ana', age: 30 });
+    expect(fix).toHaveBeenCalledTimes(1);
+
+    const [prompt, failure] = fix.mock.calls[0] as unknown as [string, any];
+    expect(prompt).toContain('- $.age: Expected number, received string');
+    expect(prompt).toContain(llmOutput);
+    expect(failure.attempt).toBe(1);
+    expect(failure.error).toBeInstanceOf(SchemaMismatchError);
+  });
+
+  test('sends the parse error when no JSON is found', async () => {
+    const fix = vi.fn(async () => '[1, 2]');
+    const result = await parseWithRetry('I cannot answer that.', { fix });
+    expect(result).toEqual([1, 2]);
+    expect(fix.mock.calls[0]![0]).toContain('It could not be parsed: No JSON found in the string.');
+  });
+
+  test('runs the fixed output through the repair pipeline', async () => {
+    const fix = async () => 'Fixed: ```json\n{name: "Ana", age: 30,}\n```';
+    const result = await parseWithRetry('{"name": 1}', { schema: UserSchema, fix });
+    expect(result).toEqual({ name: 'Ana', age: 30 });
+  });
+
+  test('throws the last error after maxAttempts', async () => {
+    const fix = vi.fn(async () => '{"name": "Ana"}');
+    await expect(
+      parseWithRetry('{"age": 1}', { schema: UserSchema, fix, maxAttempts: 2 })
+    ).rejects.toThrow(SchemaMismatchError);
+    expect(fix).toHaveBeenCalledTimes(1);
+  });
+
+  test('accepts a custom prompt builder', async () => {
+    const fix = vi.fn(async () => '{"name": "Ana", "age": 30}');
+    await parseWithRetry('nope', {
+      schema: UserSchema,
+      fix,
+      buildPrompt: (failure) => `Attempt ${failure.attempt} failed. JSON only, please.`,
+    });
+    expect(fix.mock.calls[0]![0]).toBe('Attempt 1 failed. JSON only, please.');
+  });
+
+  test('builds the default prompt from a failure', () => {
+    const prompt = buildCorrectionPrompt({
+      attempt: 1,
+      output: '{"a": }',
+      error: new Error('Unexpected token'),
+    });
+    expect(prompt).toBe(
+      [
+        'Your previous response was not valid JSON for this task.',
+        'It could not be parsed: Unexpected token',
+        'Previous response:',
+        '{"a": }',
+        'Reply with only the corrected JSON, without explanations or code fences.',
+      ].join('\n\n')
+    );
+  });
+});
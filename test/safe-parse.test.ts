@@ -0,0 +1,88 @@
+import { describe, test, expect } from 'vitest';
+import fc from 'fast-check';
+import { z } from 'zod';
+import {
+  JsonSyntaxError,
+  NoJsonFoundError,
+  RepairFailedError,
+  SchemaMismatchError,
+  safeParseFromLLM,
+} from '../src/index';
+
+describe('safeParseFromLLM', () => {
+  test('returns the data on success', () => {
+    expect(safeParseFromLLM('Here: {"name": "John"}')).toEqual({
+      success: true,
+      data: { name: 'John' },
+    });
+  });
+
+  test('returns typed errors instead of throwing', () => {
+    const noJson = safeParseFromLLM('No JSON here');
+    expect(noJson.success).toBe(false);
+    if (!noJson.success) {
+      expect(noJson.error).toBeInstanceOf(NoJsonFoundError);
+      expect(noJson.partial).toBeUndefined();
+    }
+
+    const unrepairable = safeParseFromLLM('A: {::}', { mode: 'repair' });
+    expect(!unrepairable.success && unrepairable.error).toBeInstanceOf(RepairFailedError);
+  });
+
+  test('recovers a partial value from a parse mode syntax error', () => {
+    const result = safeParseFromLLM('{name: "John", age: 30,}');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(JsonSyntaxError);
+      expect(result.partial).toEqual({ name: 'John', age: 30 });
+    }
+  });
+
+  test('recovers a partial value from unclosed JSON in parse mode', () => {
+    const result = safeParseFromLLM('{"a": 1, "b": 2');
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error).toBeInstanceOf(NoJsonFoundError);
+      expect(result.partial).toEqual({ a: 1, b: 2 });
+    }
+
+    const prose = safeParseFromLLM('no json here');
+    expect(prose.success).toBe(false);
+    if (!prose.success) expect(prose.partial).toBeUndefined();
+  });
+
+  test('validates against the schema and keeps the mismatching value', () => {
+    const schema = z.object({ name: z.string(), age: z.number() });
+
+    const valid = safeParseFromLLM('{"name": "John", "age": 30}', { schema });
+    expect(valid).toEqual({ success: true, data: { name: 'John', age: 30 } });
+    if (valid.success) expect(valid.data.name).toBe('John');
+
+    const invalid = safeParseFromLLM('{"name": "John", "age": "thirty"}', { schema });
+    expect(invalid.success).toBe(false);
+    if (!invalid.success) {
+      expect(invalid.error).toBeInstanceOf(SchemaMismatchError);
+      expect(invalid.partial).toEqual({ name: 'John', age: 'thirty' });
+    }
+  });
+
+  test('never throws, whatever the input', () => {
+    const inputs: unknown[] = [undefined, null, 42, {}, '', '{', '}{', '["a" "b"', '\\"{'];
+    for (const input of inputs) {
+      for (const mode of ['parse', 'repair'] as const) {
+        expect(() => safeParseFromLLM(input as string, { mode })).not.toThrow();
+      }
+    }
+    expect(() => safeParseFromLLM('{}', { schema: 'not a schema' as never })).not.toThrow();
+  });
+
+  test('never throws on arbitrary text', () => {
+    const jsonish = fc.string({ unit: fc.constantFrom(...'{}[]":,\\ aetrunl01'.split('')) });
+    fc.assert(
+      fc.property(jsonish, fc.constantFrom('parse' as const, 'repair' as const), (input, mode) => {
+        const result = safeParseFromLLM(input, { mode, logLevel: 'silent' });
+        expect(typeof result.success).toBe('boolean');
+      })
+    );
+  });
+});
@@ -0,0 +1,225 @@
+import { describe, test, expect } from 'vitest';
+import { z as z4 } from 'zod/v4';
+import {
+  SchemaMismatchError,
+  StandardSchemaV1,
+  parseFromLLM,
+  parseFromLLMStrict,
+  registerSchemaAdapter,
+} from '../src/index';
+
+/**
+ * Minimal Standard Schema validator: an object whose keys must all be numbers
+ */
+function numberFields(keys: string[]): StandardSchemaV1<unknown, Record<string, number>> {
+  return {
+    '~standard': {
+      version: 1,
+      vendor: 'test',
+      validate: (value) => {
+        const record = value as Record<string, unknown>;
+        const issues = keys
+          .filter((key) => typeof record?.[key] !== 'number')
+          .map((key) => ({ message: 'Expected number', path: [{ key }] }));
+        return issues.length ? { issues } : { value: record as Record<string, number> };
+      },
+    },
+  };
+}
+
+/**
+ * Builds schemas shaped like Valibot's (type, entries, item, wrapped, options)
+ */
+const v = {
+  schema<T extends object>(type: string, props: T, check: (value: unknown) => boolean) {
+    return {
+      type,
+      ...props,
+      '~standard': {
+        version: 1 as const,
+        vendor: 'valibot',
+        validate: (value: unknown) =>
+          check(value) ? { value } : { issues: [{ message: `Invalid ${type}` }] },
+      },
+    };
+  },
+  string() {
+    return v.schema('string', {}, (value) => typeof value === 'string');
+  },
+  number() {
+    return v.schema('number', {}, (value) => typeof value === 'number');
+  },
+  optional<S extends { '~standard': any }>(wrapped: S, fallback?: unknown) {
+    return v.schema(
+      'optional',
+      { wrapped, default: fallback },
+      (value) => value === undefined || !wrapped['~standard'].validate(value).issues
+    );
+  },
+  object(entries: Record<string, { '~standard': any }>) {
+    return v.schema('object', { entries }, (value) =>
+      Object.entries(entries).every(
+        ([key, entry]) =>
+          typeof value === 'object' &&
+          value !== null &&
+          !entry['~standard'].validate((value as any)[key]).issues
+      )
+    );
+  },
+  array(item: { '~standard': any }) {
+    return v.schema(
+      'array',
+      { item },
+      (value) =>
+        Array.isArray(value) && value.every((entry) => !item['~standard'].validate(entry).issues)
+    );
+  },
+};
+
+describe('schema adapters', () => {
+  describe('Zod 4', () => {
+    const UserSchema = z4.object({
+      user: z4.object({ name: z4.string(), age: z4.number(), favoriteBand: z4.string() }),
+    });
+
+    test('fixes root keys', () => {
+      const wrapped = parseFromLLM('{"name": "John", "age": 30, "favoriteBand": "Beatles"}', {
+        mode: 'repair',
+        schema: UserSchema,
+      });
+      expect(wrapped).toEqual({ user: { name: 'John', age: 30, favoriteBand: 'Beatles' } });
+
+      const renamed = parseFromLLM('{"person": {"name": "John", "age": 30, "favoriteBand": "X"}}', {
+        mode: 'repair',
+        schema: UserSchema,
+      });
+      expect(renamed).toEqual({ user: { name: 'John', age: 30, favoriteBand: 'X' } });
+    });
+
+    test('renames keys and coerces values', () => {
+      const schema = z4
+        .object({
+          count: z4.number(),
+          status: z4.enum(['open', 'on hold']),
+          tags: z4.array(z4.string()),
+          role: z4.string().default('member'),
+          note: z4.string().optional(),
+        })
+        .strict();
+      const llmOutput = '{"Count": "3", "status": "On Hold", "tags": "a", "extra": 1}';
+      const result = parseFromLLM(llmOutput, {
+        mode: 'repair',
+        schema,
+        fuzzyKeys: true,
+        coerce: true,
+      });
+      expect(result).toEqual({ count: 3, status: 'on hold', tags: ['a'], role: 'member' });
+    });
+
+    test('validates and returns the schema output', () => {
+      const schema = z4.object({ name: z4.string().transform((name) => name.toUpperCase()) });
+      expect(parseFromLLMStrict('{"name": "john"}', schema)).toEqual({ name: 'JOHN' });
+
+      expect(() => parseFromLLMStrict('{"name": 1}', schema)).toThrow(SchemaMismatchError);
+    });
+  });
+
+  describe('Standard Schema', () => {
+    test('validates through ~standard and maps issue paths', () => {
+      const schema = numberFields(['a', 'b']);
+      expect(parseFromLLMStrict('{"a": 1, "b": 2}', schema)).toEqual({ a: 1, b: 2 });
+
+      try {
+        parseFromLLMStrict('{"a": 1, "b": "x"}', schema);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(SchemaMismatchError);
+        expect((error as SchemaMismatchError).issues).toEqual([
+          { code: 'custom', path: ['b'], message: 'Expected number' },
+        ]);
+      }
+    });
+
+    test('uses validation to pick between candidates', () => {
+      const llmOutput = 'Example: {"a": "x"} Answer: {"a": 1}';
+      expect(parseFromLLM(llmOutput, { mode: 'repair', schema: numberFields(['a']) })).toEqual({
+        a: 1,
+      });
+    });
+
+    test('rejects async validation', () => {
+      const schema: StandardSchemaV1 = {
+        '~standard': { version: 1, vendor: 'test', validate: async (value) => ({ value }) },
+      };
+      expect(() => parseFromLLMStrict('{"a": 1}', schema)).toThrow(
+        'Async schema validation is not supported'
+      );
+    });
+
+    test('reads the shape of Valibot schemas', () => {
+      const schema = v.object({
+        items: v.array(v.object({ id: v.number(), label: v.optional(v.string(), 'none') })),
+      });
+      const result = parseFromLLM('{"items": [{"id": "1", "Label": "a"}, {"id": 2}]}', {
+        mode: 'repair',
+        schema,
+        fuzzyKeys: true,
+        coerce: true,
+      });
+      expect(result).toEqual({
+        items: [
+          { id: 1, label: 'a' },
+          { id: 2, label: 'none' },
+        ],
+      });
+    });
+
+    test('reads the shape from toJsonSchema (ArkType)', () => {
+      const validate = (value: unknown) =>
+        Array.isArray((value as any)?.items) ? { value } : { issues: [{ message: 'Invalid' }] };
+      const schema = Object.assign(() => undefined, {
+        '~standard': { version: 1 as const, vendor: 'arktype', validate },
+        toJsonSchema: () => ({
+          type: 'object',
+          properties: { items: { type: 'array', items: { type: 'number' } } },
+          required: ['items'],
+        }),
+      });
+
+      expect(parseFromLLMStrict('[1, 2]', schema, { mode: 'repair' })).toEqual({ items: [1, 2] });
+    });
+  });
+
+  test('uses registered adapters before the built-in ones', () => {
+    class Marker {
+      constructor(readonly key: string) {}
+    }
+    registerSchemaAdapter({
+      name: 'marker',
+      matches: (schema) => schema instanceof Marker,
+      describe: (schema) => {
+        const { key } = schema as Marker;
+        return {
+          kind: 'object',
+          optional: false,
+          shape: {
+            [key]: {
+              kind: 'array',
+              optional: false,
+              safeParse: (data) =>
+                Array.isArray(data) ? { success: true, data } : { success: false, issues: [] },
+            },
+          },
+          safeParse: (data) =>
+            key in (data as object)
+              ? { success: true, data }
+              : { success: false, issues: [{ code: 'custom', path: [key], message: 'Required' }] },
+        };
+      },
+    });
+
+    const schema = new Marker('result') as unknown as StandardSchemaV1;
+    expect(parseFromLLM('{"output": [1]}', { mode: 'repair', schema })).toEqual({ result: [1] });
+    expect(() => parseFromLLMStrict('{"a": 1, "b": 2}', schema)).toThrow('result: Required');
+  });
+});
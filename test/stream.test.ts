@@ -0,0 +1,158 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { createStreamingParser, parseFromLLM, parseFromLLMStream } from '../src/index';
+
+async function* chunksOf(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) {
+    yield text.slice(i, i + size);
+  }
+}
+
+describe('createStreamingParser', () => {
+  test('returns undefined until JSON starts', () => {
+    const parser = createStreamingParser();
+    expect(parser.push('Sure! Here is')).toBeUndefined();
+    expect(parser.push(' the data: ')).toBeUndefined();
+  });
+
+  test('closes unfinished strings, arrays and objects', () => {
+    const parser = createStreamingParser();
+    expect(parser.push('{"name": "Jo')).toEqual({ name: 'Jo' });
+    expect(parser.push('hn", "tags": ["a", "b')).toEqual({ name: 'John', tags: ['a', 'b'] });
+    expect(parser.push('"], "address": {"city": "NY"')).toEqual({
+      name: 'John',
+      tags: ['a', 'b'],
+      address: { city: 'NY' },
+    });
+  });
+
+  test('completes literals cut mid-token', () => {
+    const parser = createStreamingParser();
+    expect(parser.push('{"active": tr')).toEqual({ active: true });
+    expect(parser.push('ue, "empty": nu')).toEqual({ active: true, empty: null });
+  });
+
+  test('drops keys that have no value yet', () => {
+    const parser = createStreamingParser();
+    expect(parser.push('{"a": 1, "no')).toEqual({ a: 1 });
+    expect(parser.push('te"')).toEqual({ a: 1 });
+    expect(parser.push(': ')).toEqual({ a: 1 });
+    expect(parser.push('"hi"}')).toEqual({ a: 1, note: 'hi' });
+  });
+
+  test('drops a dangling escape in an unfinished string', () => {
+    const parser = createStreamingParser();
+    parser.push('{"a": 1, ');
+    expect(parser.push('"b": "x\\')).toEqual({ a: 1, b: 'x' });
+  });
+
+  test('supports root arrays', () => {
+    const parser = createStreamingParser();
+    expect(parser.push('[{"id": 1}, {"id"')).toEqual([{ id: 1 }, {}]);
+    expect(parser.push(': 2}]')).toEqual([{ id: 1 }, { id: 2 }]);
+  });
+
+  test('applies schema root fixes to partial values', () => {
+    const schema = z.object({ user: z.object({ name: z.string() }) });
+    const parser = createStreamingParser({ schema });
+    expect(parser.push('{"name": "Jo')).toEqual({ user: { name: 'Jo' } });
+  });
+
+  test('applies coercion and fuzzy keys like parseFromLLM', () => {
+    const schema = z.object({ age: z.number(), favoriteBand: z.string() });
+    const options = { schema, coerce: true, fuzzyKeys: true };
+    const llmOutput = '{"age": "30", "favorite_band": "X"}';
+
+    const parser = createStreamingParser(options);
+    expect(parser.push('{"age": "30", "favorite_band": "')).toEqual({ age: 30, favoriteBand: '' });
+    expect(parser.push('X"}')).toEqual({ age: 30, favoriteBand: 'X' });
+    expect(parser.end()).toEqual(parseFromLLM(llmOutput, { ...options, mode: 'repair' }));
+  });
+
+  test('keeps later roots for the candidate strategy', () => {
+    const schema = z.object({ id: z.number(), answer: z.string() });
+    const llmOutput = 'Example: {"foo": 1}. Answer: {"id": 1, "answer": "x"}';
+
+    const parser = createStreamingParser({ schema });
+    for (let i = 0; i < llmOutput.length; i += 6) {
+      parser.push(llmOutput.slice(i, i + 6));
+    }
+    expect(parser.end()).toEqual({ id: 1, answer: 'x' });
+    expect(parser.end()).toEqual(parseFromLLM(llmOutput, { mode: 'repair', schema }));
+  });
+
+  test('final result matches parseFromLLM for complete input', () => {
+    const llmOutput = 'Here: {name: "John", "age": 30,} Hope this helps!';
+    const parser = createStreamingParser();
+    for (let i = 0; i < llmOutput.length; i += 5) {
+      parser.push(llmOutput.slice(i, i + 5));
+    }
+    expect(parser.text).toBe(llmOutput);
+    expect(parser.end()).toEqual(parseFromLLM(llmOutput, { mode: 'repair' }));
+  });
+
+  test('ignores JSON in reasoning and code fences', () => {
+    const cases: [string, unknown][] = [
+      ['<think>Draft: {"draft": 1}</think>\n{"final": 2}', { final: 2 }],
+      ['```js\nconst a = {"a": 1};\n```\n```json\n{"b": 2}\n```', { b: 2 }],
+    ];
+    for (const [llmOutput, expected] of cases) {
+      const parser = createStreamingParser();
+      for (let i = 0; i < llmOutput.length; i += 4) {
+        parser.push(llmOutput.slice(i, i + 4));
+      }
+      expect(parser.end()).toEqual(expected);
+      expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual(expected);
+    }
+  });
+
+  test('does not parse again for chunks that cannot change the value', () => {
+    const items = Array.from({ length: 2000 }, (_, id) => ({ id, name: `item ${id}` }));
+    const parser = createStreamingParser();
+    parser.push(`{"items": ${JSON.stringify(items)},`);
+
+    const started = performance.now();
+    for (let i = 0; i < 500; i++) parser.push(' ');
+    for (const char of '"comment": ') parser.push(char);
+    for (let i = 0; i < 500; i++) parser.push(' ');
+    expect(performance.now() - started).toBeLessThan(500);
+
+    expect(parser.push('"ok"}')).toEqual({ items, comment: 'ok' });
+    expect(parser.push(' Hope this helps!')).toEqual({ items, comment: 'ok' });
+  });
+
+  test('closes strings and literals in the dialect', () => {
+    const parser = createStreamingParser({ dialect: 'python' });
+    expect(parser.push("{'a': 'x")).toEqual({ a: 'x' });
+    expect(parser.push("', 'b': Tr")).toEqual({ a: 'x', b: true });
+    expect(parser.push("ue, 'c': No")).toEqual({ a: 'x', b: true, c: null });
+    expect(parser.push("ne, 'd")).toEqual({ a: 'x', b: true, c: null });
+  });
+
+  test('end() throws when no JSON was streamed', () => {
+    const parser = createStreamingParser();
+    parser.push('No JSON here');
+    expect(() => parser.end()).toThrow('No JSON found');
+  });
+});
+
+describe('parseFromLLMStream', () => {
+  test('yields partial values and a final result', async () => {
+    const events = [];
+    for await (const event of parseFromLLMStream(chunksOf('{"items": [1, 2, 3]}', 6))) {
+      events.push(event);
+    }
+
+    expect(events[0]).toEqual({ data: {}, done: false });
+    expect(events.filter((e) => e.done)).toHaveLength(1);
+    expect(events[events.length - 1]).toEqual({ data: { items: [1, 2, 3] }, done: true });
+  });
+
+  test('final result closes a truncated stream', async () => {
+    let last;
+    for await (const event of parseFromLLMStream(chunksOf('{"message": "Hello wor', 4))) {
+      last = event;
+    }
+    expect(last).toEqual({ data: { message: 'Hello wor' }, done: true });
+  });
+});
@@ -0,0 +1,65 @@
+import { describe, test, expect, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { SchemaMismatchError, parseFromLLMStrict } from '../src/index';
+
+const UserSchema = z.object({
+  user: z.object({
+    name: z.string(),
+    age: z.number(),
+  }),
+});
+
+describe('parseFromLLMStrict', () => {
+  test('returns the validated value typed from the schema', () => {
+    const result = parseFromLLMStrict('{"user": {"name": "John", "age": 30}}', UserSchema);
+    expect(result).toEqual({ user: { name: 'John', age: 30 } });
+    expectTypeOf(result).toEqualTypeOf<{ user: { name: string; age: number } }>();
+  });
+
+  test('applies repair and root fixes before validating', () => {
+    const result = parseFromLLMStrict('Sure! {name: "John", age: 30}', UserSchema, {
+      mode: 'repair',
+    });
+    expect(result).toEqual({ user: { name: 'John', age: 30 } });
+  });
+
+  test('returns schema output with defaults and transforms applied', () => {
+    const schema = z.object({
+      name: z.string().transform((s) => s.toUpperCase()),
+      role: z.string().default('member'),
+    });
+    expect(parseFromLLMStrict('{"name": "john"}', schema)).toEqual({
+      name: 'JOHN',
+      role: 'member',
+    });
+  });
+
+  test('throws SchemaMismatchError with the Zod issues', () => {
+    const llmOutput = '{"user": {"name": "John", "age": "thirty"}}';
+
+    try {
+      parseFromLLMStrict(llmOutput, UserSchema);
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(SchemaMismatchError);
+      const mismatch = error as SchemaMismatchError;
+      expect(mismatch.name).toBe('SchemaMismatchError');
+      expect(mismatch.message).toBe(
+        'Parsed JSON does not match the schema: user.age: Expected number, received string'
+      );
+      expect(mismatch.issues).toHaveLength(1);
+      expect(mismatch.issues[0]!.path).toEqual(['user', 'age']);
+      expect(mismatch.data).toEqual({ user: { name: 'John', age: 'thirty' } });
+    }
+  });
+
+  test('validates root arrays', () => {
+    const schema = z.array(z.number());
+    expect(parseFromLLMStrict('Numbers: [1, 2, 3]', schema)).toEqual([1, 2, 3]);
+    expect(() => parseFromLLMStrict('["a"]', schema)).toThrow(SchemaMismatchError);
+  });
+
+  test('still throws a plain error when no JSON is found', () => {
+    expect(() => parseFromLLMStrict('No JSON here', UserSchema)).toThrow('No JSON found');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { SchemaMismatchError, ToolCallError, parseToolCalls } from '../src/index';
+
+const WeatherSchema = z.object({ city: z.string(), days: z.number() });
+
+const openAIMessage = {
+  role: 'assistant',
+  content: null,
+  tool_calls: [
+    {
+      id: 'call_1',
+      type: 'function',
+      function: { name: 'get_weather', arguments: '{"city": "Paris", "days": 3}' },
+    },
+    {
+      id: 'call_2',
+      type: 'function',
+      function: { name: 'get_time', arguments: "{timezone: 'Europe/Paris',}" },
+    },
+  ],
+};
+
+describe('parseToolCalls', () => {
+  test('parses OpenAI tool calls, repairing malformed arguments', () => {
+    expect(parseToolCalls(openAIMessage)).toEqual([
+      { id: 'call_1', name: 'get_weather', arguments: { city: 'Paris', days: 3 } },
+      { id: 'call_2', name: 'get_time', arguments: { timezone: 'Europe/Paris' } },
+    ]);
+  });
+
+  test('finds tool calls inside a whole response and the legacy function_call', () => {
+    const response = { choices: [{ message: openAIMessage }] };
+    expect(parseToolCalls(response).map((call) => call.name)).toEqual(['get_weather', 'get_time']);
+
+    const legacy = { function_call: { name: 'get_weather', arguments: '{"city": "Rome"}' } };
+    expect(parseToolCalls(legacy)).toEqual([{ name: 'get_weather', arguments: { city: 'Rome' } }]);
+  });
+
+  test('parses Anthropic tool_use blocks', () => {
+    const content = [
+      { type: 'text', text: 'Let me check.' },
+      { type: 'tool_use', id: 'toolu_1', name: 'get_weather', input: { city: 'Oslo', days: 1 } },
+    ];
+    expect(parseToolCalls({ role: 'assistant', content })).toEqual([
+      { id: 'toolu_1', name: 'get_weather', arguments: { city: 'Oslo', days: 1 } },
+    ]);
+  });
+
+  test('unwraps double-encoded and escaped arguments', () => {
+    const doubleEncoded = JSON.stringify(JSON.stringify({ city: 'Lima', days: 2 }));
+    const escaped = '{\\"city\\": \\"Quito\\", \\"days\\": 4}';
+    const calls = parseToolCalls([
+      { function: { name: 'get_weather', arguments: doubleEncoded } },
+      { function: { name: 'get_weather', arguments: escaped } },
+    ]);
+    expect(calls.map((call) => call.arguments)).toEqual([
+      { city: 'Lima', days: 2 },
+      { city: 'Quito', days: 4 },
+    ]);
+  });
+
+  test('does not decode encoded arguments with maxDecodeDepth 0', () => {
+    const doubleEncoded = JSON.stringify(JSON.stringify({ city: 'Lima' }));
+    const calls = [{ function: { name: 'get_weather', arguments: doubleEncoded } }];
+    expect(() => parseToolCalls(calls, { maxDecodeDepth: 0 })).toThrow(ToolCallError);
+  });
+
+  test('keeps string arguments that hold JSON as strings', () => {
+    const calls = parseToolCalls([
+      {
+        function: {
+          name: 'write_file',
+          arguments: '{"path": "a.json", "content": "{\\"x\\": 1}"}',
+        },
+      },
+    ]);
+    expect(calls[0]?.arguments).toEqual({ path: 'a.json', content: '{"x": 1}' });
+  });
+
+  test('reads the serialized message text', () => {
+    const raw = `Tool output: ${JSON.stringify(openAIMessage)}`;
+    expect(parseToolCalls(raw)).toEqual(parseToolCalls(openAIMessage));
+
+    // The whole message serialized once more, as some SDK logs store it
+    expect(parseToolCalls(JSON.stringify(JSON.stringify(openAIMessage)))).toHaveLength(2);
+  });
+
+  test('applies each tool schema', () => {
+    const calls = parseToolCalls(
+      [
+        { function: { name: 'get_weather', arguments: '{"City": "Paris", "days": "3"}' } },
+        { type: 'tool_use', name: 'get_weather', input: { city: 'Oslo', Days: '1' } },
+      ],
+      { schemas: { get_weather: WeatherSchema }, fuzzyKeys: true, coerce: true }
+    );
+    expect(calls.map((call) => call.arguments)).toEqual([
+      { city: 'Paris', days: 3 },
+      { city: 'Oslo', days: 1 },
+    ]);
+  });
+
+  test('validates arguments against their tool schema', () => {
+    const calls = [
+      { function: { name: 'get_weather', arguments: '{"city": "Paris", "days": 3}' } },
+      { function: { name: 'get_weather', arguments: '{"city": "Rome"}' } },
+      { function: { name: 'get_time', arguments: '{}' } },
+    ];
+    const schemas = { get_weather: WeatherSchema };
+
+    expect(parseToolCalls(calls, { schemas, validate: 'skip' }).map((c) => c.name)).toEqual([
+      'get_weather',
+      'get_time',
+    ]);
+
+    try {
+      parseToolCalls(calls, { schemas, validate: 'throw' });
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ToolCallError);
+      const toolError = error as ToolCallError;
+      expect(toolError.toolName).toBe('get_weather');
+      expect(toolError.index).toBe(1);
+      expect(toolError.cause).toBeInstanceOf(SchemaMismatchError);
+      expect(toolError.message).toContain('tool call "get_weather"');
+    }
+  });
+
+  test('reports which call failed to parse', () => {
+    const calls = [{ id: 'call_9', function: { name: 'lookup', arguments: 'no json at all' } }];
+    expect(() => parseToolCalls(calls)).toThrow(
+      'Could not parse arguments of tool call "lookup" (call_9): No JSON found'
+    );
+  });
+
+  test('treats empty arguments as an empty object and returns [] without calls', () => {
+    expect(parseToolCalls([{ function: { name: 'ping', arguments: '' } }])).toEqual([
+      { name: 'ping', arguments: {} },
+    ]);
+    expect(parseToolCalls({ role: 'assistant', content: 'Hello!' })).toEqual([]);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, test, expect } from 'vitest';
+import { z } from 'zod';
+import { parseAllFromLLM, parseFromLLM, parseFromLLMWithReport } from '../src/index';
+
+describe('truncated output', () => {
+  describe('missing closing braces in objects', () => {
+    test('handles missing closing brace', () => {
+      const llmOutput = '{"name": "John", "age": 30';
+      const result = parseFromLLM(llmOutput, { mode: 'repair' });
+      expect(result).toEqual({ name: 'John', age: 30 });
+    });
+
+    test('handles missing multiple closing braces in nested object', () => {
+      const llmOutput = '{"user": {"name": "John", "address": {"city": "NY"';
+      const result = parseFromLLM(llmOutput, { mode: 'repair' });
+      expect(result).toEqual({
+        user: { name: 'John', address: { city: 'NY' } },
+      });
+    });
+
+    test('keeps members after a closed nested object', () => {
+      const llmOutput = 'Here: {"a": {"b": 1}, "c": [1, 2';
+      expect(parseFromLLM(llmOutput, { mode: 'repair' })).toEqual({ a: { b: 1 }, c: [1, 2] });
+    });
+  });
+
+  test('reports the path of an unclosed string', () => {
+    const llmOutput = '{"items": [{"id": 1}, {"id": 2, "name": "Bo';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ items: [{ id: 1 }, { id: 2, name: 'Bo' }] });
+    expect(report.truncated).toBe(true);
+    expect(report.truncation).toEqual({ path: '$.items[1].name', node: 'string' });
+    expect(report.confidence).toBe('low');
+  });
+
+  test('keeps the whole root when a closer sits inside an earlier string', () => {
+    const llmOutput = '{"items": [{"code": "a}"}, {"code": "b';
+    const { data, report } = parseFromLLMWithReport(llmOutput, { mode: 'repair' });
+
+    expect(data).toEqual({ items: [{ code: 'a}' }, { code: 'b' }] });
+    expect(report.truncated).toBe(true);
+    expect(report.confidence).not.toBe('high');
+  });
+
+  test('reports the innermost unclosed array or object', () => {
+    const array = parseFromLLMWithReport('{"tags": ["a", "b", ', { mode: 'repair' });
+    expect(array.report.truncation).toEqual({ path: '$.tags', node: 'array' });
+
+    const object = parseFromLLMWithReport('[{"id": 1, "meta": {"x": 1', { mode: 'repair' });
+    expect(object.report.truncation).toEqual({ path: '$[0].meta', node: 'object' });
+  });
+
+  test('does not flag complete output or parse mode', () => {
+    const complete = parseFromLLMWithReport('{"a": [1, 2]} thanks', { mode: 'repair' });
+    expect(complete.report.truncated).toBe(false);
+    expect(complete.report.truncation).toBeNull();
+
+    const parseMode = parseFromLLMWithReport('{"a": 1} {"b": [1');
+    expect(parseMode.report.truncated).toBe(false);
+  });
+
+  test('drops the incomplete last array element with dropIncomplete', () => {
+    const llmOutput = '{"items": [{"id": 1, "name": "A"}, {"id": 2, "name": "B';
+    const { data, report } = parseFromLLMWithReport(llmOutput, {
+      mode: 'repair',
+      dropIncomplete: true,
+    });
+
+    expect(data).toEqual({ items: [{ id: 1, name: 'A' }] });
+    expect(report.repairs).toContainEqual({
+      kind: 'drop-incomplete',
+      path: '$.items[1]',
+      before: '{"id":2,"name":"B"}',
+      after: '',
+    });
+  });
+
+  test('drops the incomplete member when no array is open', () => {
+    const llmOutput = '{"title": "Report", "summary": "The results sh';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', dropIncomplete: true })).toEqual({
+      title: 'Report',
+    });
+  });
+
+  test('keeps everything when the cut fell between elements', () => {
+    const llmOutput = '[{"id": 1}, {"id": 2}, ';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', dropIncomplete: true })).toEqual([
+      { id: 1 },
+      { id: 2 },
+    ]);
+  });
+
+  test('drops before schema fixes run', () => {
+    const schema = z.object({ users: z.array(z.object({ name: z.string() })) });
+    const llmOutput = '[{"name": "Ana"}, {"name": "Jo';
+    expect(parseFromLLM(llmOutput, { mode: 'repair', schema, dropIncomplete: true })).toEqual({
+      users: [{ name: 'Ana' }],
+    });
+  });
+
+  test('drops the incomplete element of a truncated last document', () => {
+    const llmOutput = '{"id": 1}\n[{"id": 2}, {"id": 3, "na';
+    expect(parseAllFromLLM(llmOutput, { mode: 'repair', dropIncomplete: true })).toEqual([
+      { id: 1 },
+      [{ id: 2 }],
+    ]);
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, test, expectTypeOf } from 'vitest';
+import { z } from 'zod';
+import { z as z4 } from 'zod/v4';
+import {
+  DEFAULT_STRATEGIES,
+  parseFromLLM,
+  parseFromLLMStrict,
+  safeParseFromLLM,
+} from '../src/index';
+
+const schema = z.object({ name: z.string(), age: z.number() });
+
+describe('inferred types', () => {
+  test('safeParseFromLLM infers data from a Zod schema', () => {
+    const result = safeParseFromLLM('{"name": "John", "age": 30}', { schema });
+    if (result.success) expectTypeOf(result.data).toEqualTypeOf<{ name: string; age: number }>();
+  });
+
+  test('safeParseFromLLM infers data from a Standard Schema', () => {
+    const result = safeParseFromLLM('{"id": 1}', { schema: z4.object({ id: z4.number() }) });
+    if (result.success) expectTypeOf(result.data).toEqualTypeOf<{ id: number }>();
+  });
+
+  test('safeParseFromLLM without a schema yields unknown', () => {
+    const result = safeParseFromLLM('{"name": "John"}');
+    if (result.success) expectTypeOf(result.data).toBeUnknown();
+  });
+
+  test('parseFromLLM yields unknown unless a type is given', () => {
+    expectTypeOf(parseFromLLM('{"name": "John"}')).toBeUnknown();
+    const user = parseFromLLM<{ name: string }>('{"name": "John"}');
+    expectTypeOf(user).toEqualTypeOf<{ name: string }>();
+  });
+
+  test('parseFromLLMStrict infers its return type from the schema', () => {
+    const data = parseFromLLMStrict('{"name": "John", "age": 30}', schema);
+    expectTypeOf(data).toEqualTypeOf<{ name: string; age: number }>();
+  });
+
+  test('strategies accept readonly lists', () => {
+    const strategies = ['constants', 'json'] as const;
+    expectTypeOf(parseFromLLM).toBeCallableWith('{}', { mode: 'repair', strategies });
+    expectTypeOf(parseFromLLM).toBeCallableWith('{}', { strategies: DEFAULT_STRATEGIES });
+  });
+});